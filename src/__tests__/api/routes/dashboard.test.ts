@@ -0,0 +1,116 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { dashboardRoutes } from '../../../api/routes/dashboard';
+import { AuthService, SESSION_COOKIE } from '../../../api/services/auth.service';
+import { FileUtils } from '../../../shared/file-utils';
+import { SecretStore } from '../../../shared/secret-store';
+import { GuildMapping, OperationLog } from '../../../shared/types';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../../shared/metrics', () => ({ Metrics: { recordHttpRequest: jest.fn() } }));
+const mockConfigureGuild = jest.fn();
+jest.mock('../../../api/services/config.service', () => ({
+  ConfigService: jest.fn().mockImplementation(() => ({ configureGuild: mockConfigureGuild })),
+}));
+
+const mapping: GuildMapping = {
+  guild_id: 'guild1',
+  guild_name: '<Team>',
+  installation_id: 1,
+  default_repo: { owner: 'o', name: 'r' },
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+const log = (status: OperationLog['status'], guildId = 'guild1'): OperationLog => ({
+  id: `${status}-${guildId}`,
+  timestamp: new Date().toISOString(),
+  guild_id: guildId,
+  channel_id: 'channel1',
+  user_id: 'user1',
+  operation_type: 'file_upload',
+  status,
+  details: status === 'error' ? { error_message: 'boom' } : {},
+});
+
+describe('/dashboard', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    mockConfigureGuild.mockReset();
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async guildId => guildId === 'guild1' ? mapping : null);
+    jest.spyOn(FileUtils, 'readOperationLogs').mockImplementation(async date =>
+      date === new Date().toISOString().split('T')[0] ? [log('success'), log('error'), log('error', 'guild2')] : []
+    );
+    jest.spyOn(SecretStore, 'has').mockResolvedValue(false);
+    cookie = `${SESSION_COOKIE}=${new AuthService().issueSession({ id: 'user1', username: 'alice' }, ['guild1'])}`;
+
+    app = Fastify();
+    app.register(dashboardRoutes, { prefix: '/dashboard' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should send visitors without a session to Discord login', async () => {
+    const response = await app.inject({ method: 'GET', url: '/dashboard/guilds/guild1' });
+    expect(response.statusCode).toBe(302);
+    expect(response.headers.location).toBe('/api/auth/discord/login?return_to=%2Fdashboard%2Fguilds%2Fguild1');
+  });
+
+  test('should show the guild settings and failure rate of its own operations', async () => {
+    const response = await app.inject({ method: 'GET', url: '/dashboard/guilds/guild1', headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('&lt;Team&gt;');
+    expect(response.body).not.toContain('<Team>');
+    expect(response.body).toContain('o/r');
+    expect(response.body).toContain('2件（<span class="failed">50%</span>）');
+  });
+
+  test('should not count LLM usage records as operations', async () => {
+    const usage: OperationLog = { ...log('success'), id: 'usage', channel_id: 'unknown', operation_type: 'llm_completion' };
+    jest.spyOn(FileUtils, 'readOperationLogs').mockImplementation(async date =>
+      date === new Date().toISOString().split('T')[0] ? [log('success'), usage, usage] : []
+    );
+
+    const response = await app.inject({ method: 'GET', url: '/dashboard/guilds/guild1', headers: { cookie } });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toContain('1件（<span class="">0%</span>）');
+    expect(response.body).not.toContain('LLM 呼び出し');
+  });
+
+  test('should save the repository through ConfigService and redirect back', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/dashboard/guilds/guild1/repo',
+      headers: { cookie, 'content-type': 'application/x-www-form-urlencoded' },
+      payload: 'repo=o%2Fnew&installation_id=42',
+    });
+
+    expect(response.statusCode).toBe(303);
+    expect(response.headers.location).toBe('/dashboard/guilds/guild1?notice=repo_saved');
+    expect(mockConfigureGuild).toHaveBeenCalledWith('guild1', '<Team>', 'o/new', '42');
+  });
+
+  test('should reject guilds the caller does not manage and cross-origin submissions', async () => {
+    const forbidden = await app.inject({
+      method: 'POST',
+      url: '/dashboard/guilds/guild2/openai-key/delete',
+      headers: { cookie },
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    const crossOrigin = await app.inject({
+      method: 'POST',
+      url: '/dashboard/guilds/guild1/openai-key/delete',
+      headers: { cookie, origin: 'https://evil.example.com' },
+    });
+    expect(crossOrigin.statusCode).toBe(403);
+  });
+});
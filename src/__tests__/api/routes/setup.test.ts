@@ -0,0 +1,135 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import { setupRoutes } from '../../../api/routes/setup';
+import { AuthService, SESSION_COOKIE } from '../../../api/services/auth.service';
+import { ConfigService } from '../../../api/services/config.service';
+import { FileUtils } from '../../../shared/file-utils';
+import { GuildMapping } from '../../../shared/types';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../../shared/metrics', () => ({ Metrics: { recordHttpRequest: jest.fn() } }));
+
+const mapping = (guildId: string): GuildMapping => ({
+  guild_id: guildId,
+  guild_name: guildId,
+  installation_id: 1,
+  default_repo: { owner: 'o', name: 'r' },
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+});
+
+describe('/api/setup authorization', () => {
+  let app: FastifyInstance;
+  let session: string;
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    jest.spyOn(FileUtils, 'getAdminTokens').mockResolvedValue([]);
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async guildId => mapping(guildId));
+    session = new AuthService().issueSession({ id: 'user1', username: 'alice' }, ['guild1']);
+
+    app = Fastify();
+    app.register(setupRoutes, { prefix: '/api/setup' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should keep the health check public', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/setup/health' });
+    expect(response.statusCode).toBe(200);
+  });
+
+  test('should reject requests without credentials', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/setup/guild/guild1' });
+    expect(response.statusCode).toBe(401);
+  });
+
+  test('should only allow guilds the caller manages', async () => {
+    const cookie = `${SESSION_COOKIE}=${session}`;
+
+    const allowed = await app.inject({ method: 'GET', url: '/api/setup/guild/guild1', headers: { cookie } });
+    expect(allowed.statusCode).toBe(200);
+
+    const denied = await app.inject({ method: 'DELETE', url: '/api/setup/guild/guild2', headers: { cookie } });
+    expect(denied.statusCode).toBe(403);
+  });
+});
+
+describe('/api/setup guild mapping writes', () => {
+  let app: FastifyInstance;
+  let cookie: string;
+  let saveGuildMapping: jest.SpyInstance;
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret';
+    jest.spyOn(FileUtils, 'getAdminTokens').mockResolvedValue([]);
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async guildId => guildId === 'guild1' ? mapping('guild1') : null);
+    jest.spyOn(FileUtils, 'findGuildsByInstallation').mockImplementation(async installationId =>
+      installationId === 2 ? [mapping('guild2')] : [mapping('guild1')]
+    );
+    saveGuildMapping = jest.spyOn(FileUtils, 'saveGuildMapping').mockResolvedValue(undefined);
+    jest.spyOn(ConfigService.prototype, 'getInstallationToken').mockResolvedValue('installation-token');
+    jest.spyOn(ConfigService.prototype as any, 'fetchInstallationRepos').mockResolvedValue(['o/r']);
+    cookie = `${SESSION_COOKIE}=${new AuthService().issueSession({ id: 'user1', username: 'alice' }, ['guild1', 'guild3'])}`;
+
+    app = Fastify();
+    app.register(setupRoutes, { prefix: '/api/setup' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+  });
+
+  test('should reject creating a mapping with an installation linked to another guild', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/setup/guild',
+      headers: { cookie },
+      payload: { guild_id: 'guild3', guild_name: 'Guild 3', installation_id: 2, default_repo: { owner: 'other', name: 'private' } },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(saveGuildMapping).not.toHaveBeenCalled();
+  });
+
+  test('should reject switching to an installation linked to another guild', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/setup/guild/guild1',
+      headers: { cookie },
+      payload: { installation_id: 2 },
+    });
+
+    expect(response.statusCode).toBe(403);
+    expect(saveGuildMapping).not.toHaveBeenCalled();
+  });
+
+  test('should reject a default repository the installation cannot access', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/setup/guild/guild1',
+      headers: { cookie },
+      payload: { default_repo: { owner: 'other', name: 'private' } },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(saveGuildMapping).not.toHaveBeenCalled();
+  });
+
+  test('should reject fields that PUT may not change', async () => {
+    const response = await app.inject({
+      method: 'PUT',
+      url: '/api/setup/guild/guild1',
+      headers: { cookie },
+      payload: { channels: [{ channel_id: 'c1', channel_name: 'c1', repo_override: { owner: 'other', name: 'private' } }] },
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(saveGuildMapping).not.toHaveBeenCalled();
+  });
+});
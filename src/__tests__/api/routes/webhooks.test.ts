@@ -0,0 +1,221 @@
+import Fastify, { FastifyInstance } from 'fastify';
+import * as fs from 'fs';
+import * as fsp from 'fs/promises';
+import * as path from 'path';
+import { InstallState } from '../../../api/install-state';
+import { WebhookSignature } from '../../../api/webhook-signature';
+import { ExternalServiceError, ForbiddenError } from '../../../shared/error-handler';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../../shared/metrics', () => ({ Metrics: { recordHttpRequest: jest.fn() } }));
+const mockGitHubService = {
+  handleInstallationSuspended: jest.fn(),
+  handleRepositoriesRemoved: jest.fn(),
+};
+jest.mock('../../../api/services/github.service', () => ({
+  GitHubService: jest.fn().mockImplementation(() => mockGitHubService),
+}));
+
+const mockHandleIssuesEvent = jest.fn();
+jest.mock('../../../api/services/issue-sync.service', () => ({
+  IssueSyncService: jest.fn().mockImplementation(() => ({
+    handleIssuesEvent: mockHandleIssuesEvent,
+    handleIssueCommentEvent: jest.fn(),
+  })),
+}));
+
+const mockConnectInstallation = jest.fn();
+jest.mock('../../../api/services/config.service', () => ({
+  ConfigService: jest.fn().mockImplementation(() => ({ connectInstallation: mockConnectInstallation })),
+}));
+
+const mockSendMessage = jest.fn();
+jest.mock('../../../api/services/discord-notify.service', () => ({
+  DiscordNotifyService: jest.fn().mockImplementation(() => ({ sendMessage: mockSendMessage })),
+}));
+
+const TEST_DATA_PATH = './test_data_webhooks';
+const FIXTURE_SECRET = 'fixture-secret';
+const FIXTURE_SIGNATURE = 'sha256=7746e6a75c24fe668f160a33be2c64aa19907809f56ae52e68923ecf609c8b47';
+const fixture = fs.readFileSync(path.join(__dirname, '..', 'fixtures', 'issues-opened.json'));
+
+describe('POST /webhooks/github', () => {
+  let app: FastifyInstance;
+  let webhookRoutes: typeof import('../../../api/routes/webhooks').webhookRoutes;
+
+  beforeAll(() => {
+    // 処理済み配信の保存先は読み込み時に決まるため、DATA_PATH を設定してから読み込む
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    ({ webhookRoutes } = require('../../../api/routes/webhooks'));
+  });
+
+  const deliver = (signature: string, deliveryId: string) => app.inject({
+    method: 'POST',
+    url: '/webhooks/github',
+    headers: {
+      'content-type': 'application/json; charset=utf-8',
+      'x-github-event': 'issues',
+      'x-github-delivery': deliveryId,
+      'x-hub-signature-256': signature,
+    },
+    payload: fixture,
+  });
+
+  beforeEach(async () => {
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    process.env.GITHUB_WEBHOOK_SECRET = FIXTURE_SECRET;
+    await fsp.rm(TEST_DATA_PATH, { recursive: true, force: true });
+    mockHandleIssuesEvent.mockReset();
+    Object.values(mockGitHubService).forEach(fn => fn.mockReset());
+
+    app = Fastify();
+    app.register(webhookRoutes, { prefix: '/webhooks' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    await fsp.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  test('should accept a delivery signed over the raw body', async () => {
+    const response = await deliver(FIXTURE_SIGNATURE, 'delivery-1');
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({ status: 'success' });
+    expect(mockHandleIssuesEvent).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'opened',
+      issue: expect.objectContaining({ title: '議事録: 週次定例 — 2026/10/19' }),
+    }));
+  });
+
+  test('should reject an invalid signature', async () => {
+    const response = await deliver('sha256=' + '0'.repeat(64), 'delivery-2');
+
+    expect(response.statusCode).toBe(401);
+    expect(mockHandleIssuesEvent).not.toHaveBeenCalled();
+  });
+
+  test('should not process the same delivery twice', async () => {
+    await deliver(FIXTURE_SIGNATURE, 'delivery-3');
+    const response = await deliver(FIXTURE_SIGNATURE, 'delivery-3');
+
+    expect(response.json()).toEqual({ status: 'duplicate' });
+    expect(mockHandleIssuesEvent).toHaveBeenCalledTimes(1);
+  });
+
+  test('should record suspensions and repository removals', async () => {
+    const send = (event: string, deliveryId: string, body: object) => {
+      const payload = JSON.stringify(body);
+      return app.inject({
+        method: 'POST',
+        url: '/webhooks/github',
+        headers: {
+          'content-type': 'application/json',
+          'x-github-event': event,
+          'x-github-delivery': deliveryId,
+          'x-hub-signature-256': WebhookSignature.sign(payload, FIXTURE_SECRET),
+        },
+        payload,
+      });
+    };
+    const installation = { id: 12345678, account: { login: 'octo-org' } };
+
+    await send('installation', 'delivery-4', { action: 'suspend', installation });
+    expect(mockGitHubService.handleInstallationSuspended).toHaveBeenCalledWith(12345678, expect.anything(), true);
+
+    const removed = { action: 'removed', installation, repositories_removed: [{ id: 1, name: 'notes', full_name: 'octo-org/notes' }] };
+    await send('installation_repositories', 'delivery-5', removed);
+    expect(mockGitHubService.handleRepositoriesRemoved).toHaveBeenCalledWith(12345678, removed);
+  });
+});
+
+describe('GET /webhooks/github/setup', () => {
+  let app: FastifyInstance;
+
+  beforeEach(async () => {
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    process.env.JWT_SECRET = 'test-secret';
+    mockConnectInstallation.mockReset();
+    mockSendMessage.mockReset();
+
+    const { webhookRoutes } = require('../../../api/routes/webhooks');
+    app = Fastify();
+    app.register(webhookRoutes, { prefix: '/webhooks' });
+    await app.ready();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    delete process.env.JWT_SECRET;
+    await fsp.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  test('should link the installation to the guild in the signed state and post a confirmation', async () => {
+    mockConnectInstallation.mockResolvedValue({ repo: 'octo-org/notes', repos: ['octo-org/notes'] });
+    const state = InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/webhooks/github/setup?code=code1&installation_id=12345678&setup_action=install&state=${encodeURIComponent(state)}`,
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockConnectInstallation).toHaveBeenCalledWith('guild1', 'Guild', '12345678', 'code1', expect.any(Date));
+    expect(mockSendMessage).toHaveBeenCalledWith('channel1', expect.stringContaining('octo-org/notes'));
+  });
+
+  test('should reject a tampered state without linking anything', async () => {
+    const state = InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' });
+    const [header, , signature] = state.split('.');
+    const payload = Buffer.from(JSON.stringify({ guild_id: 'guild2', guild_name: 'Other', channel_id: 'c', user_id: 'u', iat: 0 })).toString('base64url');
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/webhooks/github/setup?code=code1&installation_id=12345678&setup_action=install&state=${header}.${payload}.${signature}`,
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(mockConnectInstallation).not.toHaveBeenCalled();
+    expect(mockSendMessage).not.toHaveBeenCalled();
+  });
+
+  test('should not accept the same state twice', async () => {
+    mockConnectInstallation.mockResolvedValue({ repo: 'octo-org/notes', repos: ['octo-org/notes'] });
+    const state = encodeURIComponent(InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' }));
+
+    await app.inject({ method: 'GET', url: `/webhooks/github/setup?code=code1&installation_id=12345678&setup_action=install&state=${state}` });
+    const reused = await app.inject({ method: 'GET', url: `/webhooks/github/setup?code=code2&installation_id=87654321&setup_action=install&state=${state}` });
+
+    expect(reused.statusCode).toBe(400);
+    expect(mockConnectInstallation).toHaveBeenCalledTimes(1);
+  });
+
+  test('should let the same link be retried after a temporary failure but not after an ownership rejection', async () => {
+    const state = encodeURIComponent(InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' }));
+    const url = `/webhooks/github/setup?code=code1&installation_id=12345678&setup_action=install&state=${state}`;
+
+    mockConnectInstallation.mockRejectedValueOnce(new ExternalServiceError('GitHub', 'installation 一覧取得失敗: 502'));
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(502);
+
+    mockConnectInstallation.mockRejectedValueOnce(new ForbiddenError('インストールした GitHub アカウントからアクセスできない installation です。'));
+    expect((await app.inject({ method: 'GET', url })).statusCode).toBe(403);
+
+    const reused = await app.inject({ method: 'GET', url });
+    expect(reused.statusCode).toBe(400);
+    expect(mockConnectInstallation).toHaveBeenCalledTimes(2);
+  });
+
+  test('should require the installing user\'s authorization code', async () => {
+    const state = InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' });
+
+    const response = await app.inject({
+      method: 'GET',
+      url: `/webhooks/github/setup?installation_id=12345678&setup_action=install&state=${encodeURIComponent(state)}`,
+    });
+
+    expect(response.statusCode).toBe(400);
+    expect(mockConnectInstallation).not.toHaveBeenCalled();
+  });
+});
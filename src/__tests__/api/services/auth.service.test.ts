@@ -0,0 +1,106 @@
+import { FastifyRequest } from 'fastify';
+import jwt from 'jsonwebtoken';
+import { AuthService, SESSION_COOKIE } from '../../../api/services/auth.service';
+import { ForbiddenError, UnauthorizedError } from '../../../shared/error-handler';
+import { FileUtils } from '../../../shared/file-utils';
+import { InstallState } from '../../../api/install-state';
+import { AdminToken } from '../../../shared/types';
+
+const requestWith = (headers: Record<string, string>) => ({ headers } as unknown as FastifyRequest);
+
+describe('AuthService', () => {
+  let stored: AdminToken[];
+  let authService: AuthService;
+
+  beforeEach(() => {
+    process.env.JWT_SECRET = 'test-secret';
+    stored = [];
+    jest.spyOn(FileUtils, 'getAdminTokens').mockImplementation(async () => stored);
+    jest.spyOn(FileUtils, 'saveAdminTokens').mockImplementation(async tokens => { stored = tokens; });
+    authService = new AuthService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should store only the hash of a created admin token and accept it as a bearer token', async () => {
+    const { token, record } = await authService.createAdminToken('ci', ['guild1']);
+
+    expect(token.startsWith('dgb_')).toBe(true);
+    expect(JSON.stringify(stored)).not.toContain(token);
+    expect(record.token_hash).toBe(AuthService.hashToken(token));
+
+    const auth = await authService.authenticate(requestWith({ authorization: `Bearer ${token}` }));
+    expect(auth).toEqual({ type: 'token', subject: 'ci', guildIds: ['guild1'] });
+  });
+
+  test('should reject unknown and revoked tokens', async () => {
+    const { token, record } = await authService.createAdminToken('ops');
+    await expect(authService.authenticate(requestWith({ authorization: 'Bearer dgb_unknown' })))
+      .rejects.toBeInstanceOf(UnauthorizedError);
+
+    expect(await authService.revokeAdminToken(record.id)).toBe(true);
+    await expect(authService.authenticate(requestWith({ authorization: `Bearer ${token}` })))
+      .rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  test('should authenticate a session cookie and scope it to the managed guilds', async () => {
+    const session = authService.issueSession({ id: 'user1', username: 'alice' }, ['guild1']);
+    const auth = await authService.authenticate(requestWith({ cookie: `theme=dark; ${SESSION_COOKIE}=${session}` }));
+
+    expect(auth).toEqual({ type: 'discord', subject: 'user1', guildIds: ['guild1'] });
+    expect(() => authService.assertGuildAccess(auth, 'guild1')).not.toThrow();
+    expect(() => authService.assertGuildAccess(auth, 'guild2')).toThrow(ForbiddenError);
+
+    process.env.JWT_SECRET = 'rotated-secret';
+    await expect(authService.authenticate(requestWith({ cookie: `${SESSION_COOKIE}=${session}` })))
+      .rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  test('should not accept other tokens signed with the same secret as a session', async () => {
+    const installState = InstallState.sign({ guild_id: 'guild1', guild_name: 'Guild', channel_id: 'channel1', user_id: 'user1' });
+    const withoutGuilds = jwt.sign({ sub: 'user1', name: 'alice' }, 'test-secret', { algorithm: 'HS256', audience: 'dashboard-session' });
+
+    for (const token of [installState, withoutGuilds]) {
+      expect(authService.verifySession(token)).toBeNull();
+      await expect(authService.authenticate(requestWith({ cookie: `${SESSION_COOKIE}=${token}` })))
+        .rejects.toBeInstanceOf(UnauthorizedError);
+    }
+  });
+
+  test('should require authentication', async () => {
+    await expect(authService.authenticate(requestWith({}))).rejects.toBeInstanceOf(UnauthorizedError);
+  });
+
+  test('should treat owners, administrators and Manage Guild holders as guild managers', () => {
+    expect(AuthService.canManageGuild({ owner: true, permissions: '0' })).toBe(true);
+    expect(AuthService.canManageGuild({ permissions: '8' })).toBe(true);
+    expect(AuthService.canManageGuild({ permissions: '32' })).toBe(true);
+    expect(AuthService.canManageGuild({ permissions: '2147483648' })).toBe(false);
+  });
+
+  test('should complete Discord login with the managed guilds and a relative return path only', async () => {
+    process.env.DISCORD_CLIENT_ID = 'client';
+    process.env.DISCORD_CLIENT_SECRET = 'secret';
+    process.env.DISCORD_OAUTH_REDIRECT_URI = 'https://bot.example.com/api/auth/discord/callback';
+    const respond = (body: unknown) => ({ ok: true, status: 200, json: async () => body }) as Response;
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce(respond({ access_token: 'access' }))
+      .mockResolvedValueOnce(respond({ id: 'user1', username: 'alice' }))
+      .mockResolvedValueOnce(respond([
+        { id: 'guild1', name: 'Managed', permissions: '32' },
+        { id: 'guild2', name: 'Member', permissions: '0' },
+      ]));
+
+    const { url, stateCookie } = authService.buildAuthorizeUrl('//evil.example.com');
+    const state = new URL(url).searchParams.get('state')!;
+
+    await expect(authService.completeLogin('code', 'forged', stateCookie)).rejects.toBeInstanceOf(UnauthorizedError);
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    const { session, returnTo } = await authService.completeLogin('code', state, stateCookie);
+    expect(returnTo).toBe('/');
+    expect(authService.verifySession(session)).toMatchObject({ sub: 'user1', guilds: ['guild1'] });
+  });
+});
@@ -0,0 +1,174 @@
+import { ConfigService } from '../../../api/services/config.service';
+import { ForbiddenError, ValidationError } from '../../../shared/error-handler';
+import { FileUtils } from '../../../shared/file-utils';
+import { GitHubInstallation, GuildMapping } from '../../../shared/types';
+
+describe('ConfigService channel settings', () => {
+  let stored: GuildMapping;
+  let configService: ConfigService;
+
+  beforeEach(() => {
+    stored = {
+      guild_id: 'guild1',
+      guild_name: 'Guild',
+      installation_id: 1,
+      default_repo: { owner: 'o', name: 'r' },
+      channels: [],
+      created_at: '2026-01-01T00:00:00.000Z',
+      updated_at: '2026-01-01T00:00:00.000Z',
+    };
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async () => stored);
+    jest.spyOn(FileUtils, 'saveGuildMapping').mockImplementation(async mapping => { stored = mapping; });
+    configService = new ConfigService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should update and remove individual channel settings', async () => {
+    await configService.updateChannelSettings('guild1', 'channel1', 'general', {
+      repo_override: { owner: 'o', name: 'notes' },
+      labels: ['idea'],
+      summarize: false,
+    });
+    await configService.updateChannelSettings('guild1', 'channel1', 'general', { summarize: undefined });
+
+    expect(stored.channels).toEqual([
+      { channel_id: 'channel1', channel_name: 'general', repo_override: { owner: 'o', name: 'notes' }, labels: ['idea'] },
+    ]);
+  });
+
+  test('should clear all settings of a channel', async () => {
+    await configService.updateChannelSettings('guild1', 'channel1', 'general', { save_mode: 'commit' });
+    await configService.updateChannelSettings('guild1', 'channel2', 'random', { labels: ['memo'] });
+
+    expect(await configService.clearChannelSettings('guild1', 'channel1')).toBe(true);
+    expect(await configService.clearChannelSettings('guild1', 'channel1')).toBe(false);
+    expect(stored.channels?.map(channel => channel.channel_id)).toEqual(['channel2']);
+  });
+
+  test('should reject malformed repositories before calling GitHub', async () => {
+    const tokenSpy = jest.spyOn(configService, 'getInstallationToken');
+
+    await expect(configService.verifyRepoAccess(1, 'not-a-repo')).rejects.toBeInstanceOf(ValidationError);
+    expect(tokenSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('ConfigService installation lookup', () => {
+  const installation = (installationId: number, extra: Partial<GitHubInstallation> = {}): GitHubInstallation => ({
+    installation_id: installationId,
+    app_id: 1,
+    account: { login: `org${installationId}`, id: installationId, type: 'Organization' },
+    permissions: {},
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+    ...extra,
+  });
+  const mapping = (guildId: string, installationId: number): GuildMapping => ({
+    guild_id: guildId,
+    guild_name: guildId,
+    installation_id: installationId,
+    default_repo: { owner: 'o', name: 'r' },
+    created_at: '2026-01-01T00:00:00.000Z',
+    updated_at: '2026-01-01T00:00:00.000Z',
+  });
+  let configService: ConfigService;
+
+  beforeEach(() => {
+    jest.spyOn(FileUtils, 'listInstallations').mockResolvedValue([
+      installation(1),
+      installation(2),
+      installation(3),
+      installation(4, { suspended_at: '2026-02-01T00:00:00.000Z' }),
+    ]);
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async guildId =>
+      ({ guild1: mapping('guild1', 1), guild2: mapping('guild2', 2), guild4: mapping('guild4', 4) })[guildId] ?? null
+    );
+    configService = new ConfigService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should offer only the guild\'s own active installation', async () => {
+    expect((await configService.listSelectableInstallations('guild1')).map(i => i.installation_id)).toEqual([1]);
+    // 紐付いていない installation（3）は、どのサーバーにも候補として出さない
+    expect(await configService.listSelectableInstallations('guild3')).toEqual([]);
+    expect(await configService.listSelectableInstallations('guild4')).toEqual([]);
+  });
+
+  test('should infer the installation from the repository with its canonical name', async () => {
+    jest.spyOn(configService, 'listInstallationRepos').mockImplementation(async installationId =>
+      installationId === '3' ? ['Org3/Notes'] : ['Org1/App']
+    );
+
+    expect(await configService.findInstallationForRepo('guild1', 'org1/app')).toEqual({ installationId: '1', repo: 'Org1/App' });
+    expect(await configService.findInstallationForRepo('guild1', 'org3/notes')).toBeNull();
+    expect(await configService.findInstallationForRepo('guild3', 'org3/notes')).toBeNull();
+  });
+});
+
+describe('ConfigService connectInstallation', () => {
+  const connectStartedAt = new Date('2026-03-01T00:00:00.000Z');
+  const installationInfo = (createdAt: string) => ({
+    id: 7,
+    app_id: 1,
+    account: { login: 'octo-org', id: 7, type: 'Organization' },
+    permissions: {},
+    created_at: createdAt,
+    updated_at: createdAt,
+  });
+  let saved: GuildMapping | null;
+  let configService: ConfigService;
+
+  beforeEach(() => {
+    saved = null;
+    jest.spyOn(FileUtils, 'getGuildMapping').mockImplementation(async () => saved);
+    jest.spyOn(FileUtils, 'saveGuildMapping').mockImplementation(async mapping => { saved = mapping; });
+    jest.spyOn(FileUtils, 'findGuildsByInstallation').mockResolvedValue([]);
+    configService = new ConfigService();
+    jest.spyOn(configService, 'listInstallationRepos').mockResolvedValue(['octo-org/zeta', 'octo-org/alpha']);
+    jest.spyOn(configService, 'upsertInstallation').mockResolvedValue(undefined);
+    jest.spyOn(configService, 'verifyInstallationOwner').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.GITHUB_APP_CLIENT_ID;
+    delete process.env.GITHUB_APP_CLIENT_SECRET;
+  });
+
+  test('should link a newly created installation with its first repository', async () => {
+    jest.spyOn(configService, 'getInstallationInfo').mockResolvedValue(installationInfo('2026-03-01T00:01:00.000Z'));
+
+    const result = await configService.connectInstallation('guild1', 'Guild', '7', 'code1', connectStartedAt);
+
+    expect(result.repo).toBe('octo-org/alpha');
+    expect(saved).toEqual(expect.objectContaining({ guild_id: 'guild1', installation_id: 7, default_repo: { owner: 'octo-org', name: 'alpha' } }));
+  });
+
+  test('should not link installations that existed before the connect link was issued', async () => {
+    jest.spyOn(configService, 'getInstallationInfo').mockResolvedValue(installationInfo('2025-12-01T00:00:00.000Z'));
+
+    await expect(configService.connectInstallation('guild1', 'Guild', '7', 'code1', connectStartedAt)).rejects.toBeInstanceOf(ForbiddenError);
+    expect(saved).toBeNull();
+  });
+
+  test('should not link installations the installing user cannot access', async () => {
+    process.env.GITHUB_APP_CLIENT_ID = 'client-id';
+    process.env.GITHUB_APP_CLIENT_SECRET = 'client-secret';
+    jest.mocked(configService.verifyInstallationOwner).mockRestore();
+    const getInstallationInfo = jest.spyOn(configService, 'getInstallationInfo').mockResolvedValue(installationInfo('2026-03-01T00:01:00.000Z'));
+    const fetchMock = jest.spyOn(global, 'fetch')
+      .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'user-token' })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ total_count: 1, installations: [{ id: 8 }] })));
+
+    await expect(configService.connectInstallation('guild1', 'Guild', '7', 'code1', connectStartedAt)).rejects.toBeInstanceOf(ForbiddenError);
+    expect(fetchMock.mock.calls[1]![1]).toEqual(expect.objectContaining({ headers: expect.objectContaining({ Authorization: 'Bearer user-token' }) }));
+    expect(getInstallationInfo).not.toHaveBeenCalled();
+    expect(saved).toBeNull();
+  });
+});
@@ -0,0 +1,149 @@
+import { GitHubService, UploadSteps } from '../../../api/services/github.service';
+import { ExternalServiceError } from '../../../shared/error-handler';
+import { FileUtils } from '../../../shared/file-utils';
+import { GuildMapping, ProcessedFile } from '../../../shared/types';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../../shared/metrics', () => ({
+  Metrics: {
+    recordHttpRequest: jest.fn(),
+    recordGitHubApiCall: jest.fn(),
+    recordFileProcessing: jest.fn(),
+    setCircuitBreakerState: jest.fn(),
+  },
+}));
+const mockSummarizeFile = jest.fn();
+jest.mock('../../../api/services/openai.service', () => ({
+  OpenAIService: jest.fn().mockImplementation(() => ({ summarizeFile: mockSummarizeFile })),
+}));
+
+const mapping: GuildMapping = {
+  guild_id: 'guild1',
+  guild_name: 'Guild',
+  installation_id: 1,
+  default_repo: { owner: 'o', name: 'r' },
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+};
+
+const file: ProcessedFile = {
+  original_name: 'note.md',
+  content: '# メモ',
+  size: 8,
+  type: 'text/markdown',
+};
+
+describe('GitHubService prepareUpload', () => {
+  let githubService: GitHubService;
+
+  beforeEach(() => {
+    process.env.GITHUB_APP_ID = '1';
+    process.env.GITHUB_APP_PRIVATE_KEY = 'test-key';
+    mockSummarizeFile.mockReset();
+    jest.spyOn(FileUtils, 'getGuildMapping').mockResolvedValue(mapping);
+    jest.spyOn(FileUtils, 'getInstallation').mockResolvedValue(null);
+    githubService = new GitHubService();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should continue without a summary when the LLM call fails', async () => {
+    mockSummarizeFile.mockRejectedValue(new ExternalServiceError('OpenAI', 'Unexpected error: timeout'));
+
+    const prepared = await githubService.prepareUpload('guild1', 'channel1', 'user1', file);
+
+    expect(prepared.summary).toBeNull();
+  });
+});
+
+describe('GitHubService publishUpload', () => {
+  const createIssue = jest.fn();
+  const createGist = jest.fn();
+  let githubService: GitHubService;
+
+  beforeEach(() => {
+    process.env.GITHUB_APP_ID = '1';
+    process.env.GITHUB_APP_PRIVATE_KEY = 'test-key';
+    createIssue.mockReset().mockResolvedValue({ data: { html_url: 'https://github.com/o/r/issues/1', number: 1, title: 't' } });
+    createGist.mockReset().mockResolvedValue({ data: { html_url: 'https://gist.github.com/abc', id: 'abc', description: '' } });
+    jest.spyOn(FileUtils, 'getGuildMapping').mockResolvedValue(mapping);
+    jest.spyOn(FileUtils, 'getInstallation').mockResolvedValue(null);
+    jest.spyOn(FileUtils, 'logOperation').mockResolvedValue(undefined);
+    githubService = new GitHubService();
+    jest.spyOn(githubService as any, 'getInstallationClient').mockResolvedValue({
+      rest: { issues: { create: createIssue }, gists: { create: createGist } },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should link content that does not fit in an issue body instead of embedding it', async () => {
+    const content = 'あ'.repeat(70000);
+    const longFile: ProcessedFile = { ...file, content, size: Buffer.byteLength(content, 'utf-8') };
+
+    const result = await githubService.publishUpload({
+      guildId: 'guild1', channelId: 'channel1', userId: 'user1', file: longFile, options: {}, summary: null,
+    });
+
+    expect(result.kind).toBe('issue');
+    expect(createGist).toHaveBeenCalledTimes(1);
+    const body = createIssue.mock.calls[0][0].body as string;
+    expect(body.length).toBeLessThanOrEqual(65536);
+    expect(body).toContain('https://gist.github.com/abc');
+  });
+});
+
+describe('GitHubService publishUpload retries', () => {
+  const createOrUpdateFileContents = jest.fn();
+  const createIssue = jest.fn();
+  let githubService: GitHubService;
+
+  beforeEach(() => {
+    process.env.GITHUB_APP_ID = '1';
+    process.env.GITHUB_APP_PRIVATE_KEY = 'test-key';
+    createOrUpdateFileContents.mockReset().mockResolvedValue({
+      data: { content: { html_url: 'https://github.com/o/r/blob/main/Writing/note.md' }, commit: { sha: 'sha1' } },
+    });
+    createIssue.mockReset();
+    jest.spyOn(FileUtils, 'getGuildMapping').mockResolvedValue({ ...mapping, save_mode: 'both', commit_branch: 'main' });
+    jest.spyOn(FileUtils, 'getInstallation').mockResolvedValue(null);
+    jest.spyOn(FileUtils, 'logOperation').mockResolvedValue(undefined);
+    githubService = new GitHubService();
+    jest.spyOn(githubService as any, 'getInstallationClient').mockResolvedValue({
+      rest: {
+        repos: {
+          createOrUpdateFileContents,
+          getContent: jest.fn().mockRejectedValue(Object.assign(new Error('Not Found'), { status: 404 })),
+        },
+        issues: { create: createIssue },
+      },
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not commit again when retrying after the issue creation failed', async () => {
+    createIssue
+      .mockRejectedValueOnce(Object.assign(new Error('Validation Failed'), { status: 422 }))
+      .mockResolvedValue({ data: { html_url: 'https://github.com/o/r/issues/1', number: 1, title: 't' } });
+    const steps: UploadSteps = {};
+    const tracker = { steps, save: jest.fn().mockResolvedValue(undefined) };
+    const prepared = { guildId: 'guild1', channelId: 'channel1', userId: 'user1', file, options: {}, summary: null };
+
+    await expect(githubService.publishUpload(prepared, tracker)).rejects.toThrow();
+    expect(steps.commit?.sha).toBe('sha1');
+    expect(tracker.save).toHaveBeenCalledTimes(1);
+
+    const result = await githubService.publishUpload(prepared, tracker);
+
+    expect(result.kind).toBe('issue');
+    expect(createOrUpdateFileContents).toHaveBeenCalledTimes(1);
+    expect(result.kind === 'issue' && result.commit?.sha).toBe('sha1');
+  });
+});
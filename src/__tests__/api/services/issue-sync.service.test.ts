@@ -0,0 +1,47 @@
+import { ConfigService } from '../../../api/services/config.service';
+import { DiscordNotifyService } from '../../../api/services/discord-notify.service';
+import { IssueEventPayload, IssueSyncService } from '../../../api/services/issue-sync.service';
+import { FileUtils } from '../../../shared/file-utils';
+
+describe('IssueSyncService label events', () => {
+  const sendMessage = jest.fn();
+  let issueSyncService: IssueSyncService;
+
+  const labeled = (sender: { login: string; type: string }): IssueEventPayload => ({
+    action: 'labeled',
+    issue: { number: 1, title: 't', html_url: 'https://github.com/o/r/issues/1' },
+    label: { name: 'dependencies' },
+    repository: { name: 'r', owner: { login: 'o' } },
+    sender,
+  });
+
+  beforeEach(() => {
+    sendMessage.mockReset();
+    jest.spyOn(FileUtils, 'getIssueLink').mockResolvedValue({
+      owner: 'o',
+      repo: 'r',
+      issue_number: 1,
+      issue_url: 'https://github.com/o/r/issues/1',
+      guild_id: 'guild1',
+      channel_id: 'channel1',
+      message_id: 'message1',
+      created_at: '2026-01-01T00:00:00.000Z',
+    });
+    issueSyncService = new IssueSyncService(
+      { sendMessage } as unknown as DiscordNotifyService,
+      { getAppSlug: jest.fn().mockResolvedValue('discord-commit') } as unknown as ConfigService
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should skip labels added by this app but post those added by other bots', async () => {
+    await issueSyncService.handleIssuesEvent(labeled({ login: 'discord-commit[bot]', type: 'Bot' }));
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    await issueSyncService.handleIssuesEvent(labeled({ login: 'dependabot[bot]', type: 'Bot' }));
+    expect(sendMessage).toHaveBeenCalledWith('channel1', expect.stringContaining('dependencies'), { replyTo: 'message1' });
+  });
+});
@@ -0,0 +1,60 @@
+import { LLMProviderFactory } from '../../../api/services/llm-provider';
+import { ValidationError } from '../../../shared/error-handler';
+import { SecretStore, SECRET_KEYS } from '../../../shared/secret-store';
+
+describe('LLMProviderFactory.getSettings', () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = {};
+    process.env.OPENAI_API_KEY = 'sk-operator';
+    jest.spyOn(SecretStore, 'get').mockImplementation(async (_guildId, key) => stored[key] ?? null);
+  });
+
+  afterEach(() => {
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.LLM_ALLOWED_BASE_URLS;
+    jest.restoreAllMocks();
+  });
+
+  test('should not send the operator key to a base URL set by the guild', async () => {
+    stored[SECRET_KEYS.llmProvider] = 'openai_compatible';
+    stored[SECRET_KEYS.llmModel] = 'llama3.1';
+    stored[SECRET_KEYS.llmBaseUrl] = 'https://attacker.example/v1';
+
+    const settings = await LLMProviderFactory.getSettings('guild1');
+
+    expect(settings.baseUrl).toBe('https://attacker.example/v1');
+    expect(settings.apiKey).toBeUndefined();
+  });
+
+  test('should use the operator key with the operator endpoint and the guild key with its own endpoint', async () => {
+    expect((await LLMProviderFactory.getSettings('guild1')).apiKey).toBe('sk-operator');
+
+    stored[SECRET_KEYS.llmBaseUrl] = 'https://llm.example.com/v1';
+    stored[SECRET_KEYS.openai] = 'sk-guild';
+    expect((await LLMProviderFactory.getSettings('guild1')).apiKey).toBe('sk-guild');
+  });
+
+  test('should not fall back to the operator OpenAI key for other providers', async () => {
+    stored[SECRET_KEYS.llmProvider] = 'anthropic';
+    stored[SECRET_KEYS.llmModel] = 'claude-3-5-sonnet-latest';
+
+    const settings = await LLMProviderFactory.getSettings('guild1');
+
+    expect(settings.apiKey).toBeUndefined();
+    expect(() => LLMProviderFactory.create(settings)).toThrow(ValidationError);
+
+    stored[SECRET_KEYS.llmProvider] = 'azure';
+    stored[SECRET_KEYS.llmModel] = 'gpt-4o';
+    expect((await LLMProviderFactory.getSettings('guild1')).apiKey).toBeUndefined();
+  });
+
+  test('should reject base URLs outside the operator allowlist', async () => {
+    process.env.LLM_ALLOWED_BASE_URLS = 'http://localhost:11434, https://llm.example.com';
+    stored[SECRET_KEYS.llmBaseUrl] = 'http://169.254.169.254/latest';
+
+    await expect(LLMProviderFactory.getSettings('guild1')).rejects.toBeInstanceOf(ValidationError);
+    expect(() => LLMProviderFactory.assertAllowedBaseUrl('http://localhost:11434/v1')).not.toThrow();
+  });
+});
@@ -0,0 +1,44 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { WebhookSignature } from '../../api/webhook-signature';
+
+// fixtures/issues-opened.json を secret "fixture-secret" で署名したもの（整形済み・非 ASCII・"\/" を含むため JSON.stringify し直すと一致しない）
+const FIXTURE_SECRET = 'fixture-secret';
+const FIXTURE_SIGNATURE = 'sha256=7746e6a75c24fe668f160a33be2c64aa19907809f56ae52e68923ecf609c8b47';
+const fixture = fs.readFileSync(path.join(__dirname, 'fixtures', 'issues-opened.json'));
+
+describe('WebhookSignature', () => {
+  afterEach(() => {
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    delete process.env.GITHUB_WEBHOOK_SECRET_PREVIOUS;
+  });
+
+  test('should match the example in the GitHub documentation', () => {
+    const signature = 'sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17';
+    expect(WebhookSignature.verify(Buffer.from('Hello, World!'), signature, ["It's a Secret to Everybody"])).toBe(true);
+  });
+
+  test('should verify the exact bytes that were signed', () => {
+    expect(WebhookSignature.verify(fixture, FIXTURE_SIGNATURE, [FIXTURE_SECRET])).toBe(true);
+
+    const reserialized = Buffer.from(JSON.stringify(JSON.parse(fixture.toString('utf8'))));
+    expect(WebhookSignature.verify(reserialized, FIXTURE_SIGNATURE, [FIXTURE_SECRET])).toBe(false);
+  });
+
+  test('should reject wrong secrets and malformed signatures', () => {
+    expect(WebhookSignature.verify(fixture, FIXTURE_SIGNATURE, ['other-secret'])).toBe(false);
+    expect(WebhookSignature.verify(fixture, undefined, [FIXTURE_SECRET])).toBe(false);
+    expect(WebhookSignature.verify(fixture, FIXTURE_SIGNATURE.replace('sha256=', 'sha1='), [FIXTURE_SECRET])).toBe(false);
+    expect(WebhookSignature.verify(fixture, 'sha256=abc', [FIXTURE_SECRET])).toBe(false);
+    expect(WebhookSignature.verify(fixture, FIXTURE_SIGNATURE, [])).toBe(false);
+  });
+
+  test('should accept the previous secret during rotation', () => {
+    process.env.GITHUB_WEBHOOK_SECRET = 'new-secret';
+    process.env.GITHUB_WEBHOOK_SECRET_PREVIOUS = FIXTURE_SECRET;
+
+    expect(WebhookSignature.getSecrets()).toEqual(['new-secret', FIXTURE_SECRET]);
+    expect(WebhookSignature.verify(fixture, FIXTURE_SIGNATURE)).toBe(true);
+    expect(WebhookSignature.verify(fixture, WebhookSignature.sign(fixture, 'new-secret'))).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+import { Message } from 'discord.js';
+import { MessageHandler } from '../../../bot/handlers/message';
+import { PendingInputs } from '../../../bot/pending-inputs';
+import { UploadQueue } from '../../../bot/upload-queue';
+import { GitHubService } from '../../../api/services/github.service';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../../shared/metrics', () => ({
+  Metrics: { recordDiscordMessage: jest.fn() },
+}));
+
+describe('MessageHandler redelivery', () => {
+  const reply = jest.fn();
+  let handler: MessageHandler;
+
+  const message = {
+    id: 'message1',
+    content: 'メモ',
+    author: { id: 'user1', username: 'user', bot: false },
+    guild: { id: 'guild1' },
+    channel: { id: 'channel1' },
+    attachments: new Map(),
+    reply,
+  } as unknown as Message;
+
+  beforeEach(() => {
+    process.env.GITHUB_APP_ID = '1';
+    process.env.GITHUB_APP_PRIVATE_KEY = 'test-key';
+    reply.mockReset().mockResolvedValue({ id: 'reply1', channel: { id: 'channel1' } });
+    // 入力待ちは最初の受信で解除されるが、再送も同じ入力として届いた場合を想定する
+    jest.spyOn(PendingInputs, 'take').mockResolvedValue({
+      kind: 'issue_text',
+      guildId: 'guild1',
+      channelId: 'channel1',
+      userId: 'user1',
+      applicationId: 'app1',
+      interactionToken: 'token1',
+      createdAt: new Date().toISOString(),
+    });
+    jest.spyOn(UploadQueue, 'enqueue').mockResolvedValue(undefined);
+    const claimed = new Set<string>();
+    jest.spyOn(GitHubService.prototype, 'claimUpload').mockImplementation(async key => {
+      if (claimed.has(key)) return false;
+      claimed.add(key);
+      return true;
+    });
+    handler = new MessageHandler();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should not acknowledge or enqueue again while the first job is still queued', async () => {
+    await handler.handleMessage(message);
+    await handler.handleMessage(message);
+
+    expect(reply).toHaveBeenCalledTimes(1);
+    expect(UploadQueue.enqueue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,72 @@
+import { ExpiringStore } from '../../shared/expiring-store';
+import * as fs from 'fs/promises';
+
+const TEST_DATA_PATH = './test_data_expiring_store';
+
+describe('ExpiringStore', () => {
+  let now: number;
+
+  beforeEach(async () => {
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+
+    now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  test('should return values until they expire', async () => {
+    const store = new ExpiringStore<{ channelId: string }>('test', 1000);
+    await store.set('user1', { channelId: 'c1' });
+
+    expect(await store.get('user1')).toEqual({ channelId: 'c1' });
+
+    now += 1001;
+    expect(await store.get('user1')).toBeNull();
+  });
+
+  test('should persist entries across instances', async () => {
+    const first = new ExpiringStore<string>('test', 60000);
+    await first.set('user1', 'value');
+
+    const second = new ExpiringStore<string>('test', 60000);
+    expect(await second.get('user1')).toBe('value');
+  });
+
+  test('should keep every entry written while the file is first loaded', async () => {
+    const first = new ExpiringStore<string>('test', 60000);
+    await first.set('existing', 'value');
+
+    const store = new ExpiringStore<string>('test', 60000);
+    await Promise.all([store.set('user1', 'a'), store.set('user2', 'b')]);
+
+    const reloaded = new ExpiringStore<string>('test', 60000);
+    expect(await reloaded.get('existing')).toBe('value');
+    expect(await reloaded.get('user1')).toBe('a');
+    expect(await reloaded.get('user2')).toBe('b');
+  });
+
+  test('should delete entries and return the removed value', async () => {
+    const store = new ExpiringStore<string>('test', 60000);
+    await store.set('user1', 'value');
+
+    expect(await store.delete('user1')).toBe('value');
+    expect(await store.get('user1')).toBeNull();
+    expect(await store.delete('user1')).toBeNull();
+  });
+
+  test('should take expired entries only once', async () => {
+    const store = new ExpiringStore<string>('test', 1000);
+    await store.set('short', 'a');
+    await store.set('long', 'b', 10000);
+
+    now += 2000;
+    expect(await store.takeExpired()).toEqual([{ key: 'short', value: 'a' }]);
+    expect(await store.takeExpired()).toEqual([]);
+    expect(await store.get('long')).toBe('b');
+  });
+});
@@ -0,0 +1,81 @@
+import { IdempotencyStore } from '../../shared/idempotency-store';
+import * as fs from 'fs/promises';
+
+const TEST_DATA_PATH = './test_data_idempotency_store';
+
+describe('IdempotencyStore', () => {
+  beforeEach(async () => {
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  test('should return the previous result without running again', async () => {
+    const store = new IdempotencyStore<{ url: string }>('test');
+    const fn = jest.fn().mockResolvedValue({ url: 'https://github.com/o/r/issues/1' });
+
+    expect(await store.run('msg1', fn)).toEqual({ value: { url: 'https://github.com/o/r/issues/1' }, duplicate: false });
+    expect(await store.run('msg1', fn)).toEqual({ value: { url: 'https://github.com/o/r/issues/1' }, duplicate: true });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should share the result of a concurrent run for the same key', async () => {
+    const store = new IdempotencyStore<string>('test');
+    let resolve!: (value: string) => void;
+    const fn = jest.fn(() => new Promise<string>(r => { resolve = r; }));
+
+    const first = store.run('delivery1', fn);
+    const second = store.run('delivery1', fn);
+    while (fn.mock.calls.length === 0) {
+      await new Promise(r => setImmediate(r));
+    }
+    resolve('done');
+
+    expect(await first).toEqual({ value: 'done', duplicate: false });
+    expect(await second).toEqual({ value: 'done', duplicate: true });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('should not record failures so that redeliveries run again', async () => {
+    const store = new IdempotencyStore<string>('test');
+    const fn = jest.fn()
+      .mockRejectedValueOnce(new Error('boom'))
+      .mockResolvedValueOnce('ok');
+
+    await expect(store.run('delivery1', fn)).rejects.toThrow('boom');
+    expect(await store.run('delivery1', fn)).toEqual({ value: 'ok', duplicate: false });
+  });
+
+  test('should treat a claimed key as a duplicate until it is released', async () => {
+    const store = new IdempotencyStore<string>('test');
+
+    expect(await store.claim('msg1')).toBe(true);
+    expect(await store.claim('msg1')).toBe(false);
+    // 受け付けた処理そのものは実行できる
+    expect(await store.run('msg1', async () => 'done')).toEqual({ value: 'done', duplicate: false });
+    expect(await store.claim('msg1')).toBe(false);
+
+    expect(await store.claim('msg2')).toBe(true);
+    await store.release('msg2');
+    expect(await store.claim('msg2')).toBe(true);
+  });
+
+  test('should persist across instances and drop the oldest entries over the limit', async () => {
+    let now = 1_700_000_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now++);
+
+    const store = new IdempotencyStore<string>('test', 2);
+    await store.run('a', async () => 'A');
+    await store.run('b', async () => 'B');
+    await store.run('c', async () => 'C');
+
+    const reloaded = new IdempotencyStore<string>('test', 2);
+    expect(await reloaded.get('a')).toBeNull();
+    expect(await reloaded.get('b')).toBe('B');
+    expect(await reloaded.get('c')).toBe('C');
+  });
+});
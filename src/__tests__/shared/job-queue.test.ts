@@ -0,0 +1,115 @@
+import { JobQueue } from '../../shared/job-queue';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../shared/metrics', () => ({
+  Metrics: { setQueueDepth: jest.fn(), recordJob: jest.fn() },
+}));
+
+const TEST_DATA_PATH = './test_data_job_queue';
+
+const waitFor = async (condition: () => Promise<boolean>): Promise<void> => {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) return;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Timed out waiting for condition');
+};
+
+describe('JobQueue', () => {
+  let queue: JobQueue<{ name: string }>;
+
+  beforeEach(async () => {
+    process.env.DATA_PATH = TEST_DATA_PATH;
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+    queue = new JobQueue('test', { retryDelayMs: 1, pollIntervalMs: 10 });
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    await fs.rm(TEST_DATA_PATH, { recursive: true, force: true });
+  });
+
+  test('should run queued jobs and remove them on success', async () => {
+    const handled: string[] = [];
+    await queue.start(async job => { handled.push(job.payload.name); });
+    await queue.enqueue({ name: 'a' });
+    await queue.enqueue({ name: 'b' });
+
+    await waitFor(async () => (await queue.getPendingCount()) === 0);
+    expect(handled).toEqual(['a', 'b']);
+    expect(await queue.listDeadLetters()).toEqual([]);
+  });
+
+  test('should retry failed jobs and move them to dead letters after max attempts', async () => {
+    const onRetry = jest.fn();
+    const onDeadLetter = jest.fn();
+    const handler = jest.fn().mockRejectedValue(new Error('boom'));
+    await queue.start(handler, { onRetry, onDeadLetter });
+    await queue.enqueue({ name: 'a' });
+
+    await waitFor(async () => (await queue.listDeadLetters()).length === 1);
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onDeadLetter).toHaveBeenCalledTimes(1);
+    const [dead] = await queue.listDeadLetters();
+    expect(dead).toMatchObject({ payload: { name: 'a' }, attempts: 3, error: 'boom' });
+    expect(await queue.getPendingCount()).toBe(0);
+  });
+
+  test('should dead-letter non-retryable errors immediately', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('invalid'));
+    await queue.start(handler, { isRetryable: () => false });
+    await queue.enqueue({ name: 'a' });
+
+    await waitFor(async () => (await queue.listDeadLetters()).length === 1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('should resume jobs left running by a previous process', async () => {
+    const filePath = path.join(TEST_DATA_PATH, 'queues', 'test.json');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify({
+      jobs: [{ id: 'j1', payload: { name: 'a' }, status: 'running', attempts: 1, run_at: 0, created_at: '2026-01-01T00:00:00.000Z' }],
+      dead: [],
+    }));
+
+    const handled: string[] = [];
+    await queue.start(async job => { handled.push(job.payload.name); });
+
+    await waitFor(async () => (await queue.getPendingCount()) === 0);
+    expect(handled).toEqual(['a']);
+  });
+
+  test('should keep payload progress saved by update across retries', async () => {
+    const seen: string[] = [];
+    await queue.start(async job => {
+      seen.push(job.payload.name);
+      if (job.attempts === 1) {
+        job.payload.name = 'a:step1';
+        await queue.update(job);
+        throw new Error('boom');
+      }
+    });
+    await queue.enqueue({ name: 'a' });
+
+    await waitFor(async () => (await queue.getPendingCount()) === 0);
+    expect(seen).toEqual(['a', 'a:step1']);
+  });
+
+  test('should redact payloads before storing them as dead letters', async () => {
+    const onDeadLetter = jest.fn();
+    await queue.start(jest.fn().mockRejectedValue(new Error('invalid')), {
+      isRetryable: () => false,
+      onDeadLetter,
+      redactDeadLetter: () => ({ name: '' }),
+    });
+    await queue.enqueue({ name: 'secret' });
+
+    await waitFor(async () => (await queue.listDeadLetters()).length === 1);
+    const raw = await fs.readFile(path.join(TEST_DATA_PATH, 'queues', 'test.json'), 'utf-8');
+    expect(raw).not.toContain('secret');
+    expect(onDeadLetter.mock.calls[0][0].payload).toEqual({ name: 'secret' });
+  });
+});
@@ -0,0 +1,101 @@
+import { Resilience } from '../../shared/resilience';
+import { CircuitOpenError } from '../../shared/error-handler';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../shared/metrics', () => ({
+  Metrics: { setCircuitBreakerState: jest.fn(), recordApiRetry: jest.fn() },
+}));
+
+const httpError = (status: number, headers: Record<string, string> = {}, message = 'error') =>
+  Object.assign(new Error(message), { status, response: { headers } });
+
+describe('Resilience', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('isRetryable', () => {
+    test('should retry rate limits, server errors and network errors', () => {
+      expect(Resilience.isRetryable(httpError(429))).toBe(true);
+      expect(Resilience.isRetryable(httpError(503))).toBe(true);
+      expect(Resilience.isRetryable(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(true);
+    });
+
+    test('should retry GitHub secondary rate limits but not other 403s', () => {
+      expect(Resilience.isRetryable(httpError(403, { 'retry-after': '1' }))).toBe(true);
+      expect(Resilience.isRetryable(httpError(403, { 'x-ratelimit-remaining': '0' }))).toBe(true);
+      expect(Resilience.isRetryable(httpError(403, {}, 'You have exceeded a secondary rate limit'))).toBe(true);
+      expect(Resilience.isRetryable(httpError(403))).toBe(false);
+      expect(Resilience.isRetryable(httpError(404))).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    test('should honor Retry-After seconds', () => {
+      expect(Resilience.getRetryDelay(httpError(429, { 'retry-after': '3' }), 0)).toBe(3000);
+    });
+
+    test('should wait until x-ratelimit-reset when the quota is exhausted', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const error = httpError(403, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1010' });
+      expect(Resilience.getRetryDelay(error, 0)).toBe(10_000);
+    });
+
+    test('should back off exponentially otherwise', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0);
+      expect(Resilience.getRetryDelay(httpError(500), 0, 100)).toBe(100);
+      expect(Resilience.getRetryDelay(httpError(500), 2, 100)).toBe(400);
+    });
+  });
+
+  describe('execute', () => {
+    test('should retry transient failures and return the result', async () => {
+      const fn = jest.fn()
+        .mockRejectedValueOnce(httpError(502))
+        .mockResolvedValueOnce('ok');
+
+      await expect(Resilience.execute('github', 1, fn, { baseDelayMs: 1 })).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not retry client errors', async () => {
+      const fn = jest.fn().mockRejectedValue(httpError(422));
+
+      await expect(Resilience.execute('github', 1, fn, { baseDelayMs: 1 })).rejects.toThrow('error');
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    test('should open the circuit after repeated failures and close it after a successful trial', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(5_000_000);
+      const failing = jest.fn().mockRejectedValue(httpError(503));
+      for (let i = 0; i < 5; i++) {
+        await expect(Resilience.execute('openai', 'guild-1', failing, { maxRetries: 0 })).rejects.toThrow('error');
+      }
+      expect(Resilience.isOpen('openai', 'guild-1')).toBe(true);
+      expect(Resilience.getStatuses().openai).toEqual({ state: 'open', openBreakers: 1 });
+
+      const fn = jest.fn().mockResolvedValue('ok');
+      await expect(Resilience.execute('openai', 'guild-1', fn)).rejects.toThrow(CircuitOpenError);
+      expect(fn).not.toHaveBeenCalled();
+
+      now.mockReturnValue(5_000_000 + 30_000);
+      await expect(Resilience.execute('openai', 'guild-1', fn)).resolves.toBe('ok');
+      expect(Resilience.getStatuses().openai).toEqual({ state: 'closed', openBreakers: 0 });
+    });
+
+    test('should keep other guilds working while one guild\'s circuit is open', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(7_000_000);
+      const failing = jest.fn().mockRejectedValue(httpError(503));
+      for (let i = 0; i < 5; i++) {
+        await expect(Resilience.execute('openai', 'guild-a', failing, { maxRetries: 0 })).rejects.toThrow('error');
+      }
+      expect(Resilience.isOpen('openai', 'guild-a')).toBe(true);
+
+      const fn = jest.fn().mockResolvedValue('ok');
+      await expect(Resilience.execute('openai', 'guild-b', fn)).resolves.toBe('ok');
+      expect(fn).toHaveBeenCalledTimes(1);
+      expect(Resilience.isOpen('openai', 'guild-b')).toBe(false);
+      await expect(Resilience.execute('openai', 'guild-a', fn)).rejects.toThrow(CircuitOpenError);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { TextChunker } from '../../shared/text-chunker';
+
+describe('TextChunker', () => {
+  describe('estimateTokens', () => {
+    test('should count ASCII at about four characters per token', () => {
+      expect(TextChunker.estimateTokens('abcdefgh')).toBe(2);
+      expect(TextChunker.estimateTokens('abcde')).toBe(2);
+    });
+
+    test('should count non-ASCII characters as one token each', () => {
+      expect(TextChunker.estimateTokens('日本語')).toBe(3);
+      expect(TextChunker.estimateTokens('abcd日本')).toBe(3);
+    });
+  });
+
+  describe('split', () => {
+    test('should keep short text in a single chunk', () => {
+      expect(TextChunker.split('line1\nline2', 100)).toEqual(['line1\nline2']);
+    });
+
+    test('should split on line boundaries without exceeding the budget', () => {
+      const lines = Array.from({ length: 10 }, (_, i) => `${'x'.repeat(36)}${i}`);
+      const chunks = TextChunker.split(lines.join('\n'), 25);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(TextChunker.estimateTokens(chunk)).toBeLessThanOrEqual(25);
+      }
+      expect(chunks.join('\n')).toBe(lines.join('\n'));
+    });
+
+    test('should cut a single line that exceeds the budget', () => {
+      const line = 'あ'.repeat(25);
+      const chunks = TextChunker.split(line, 10);
+
+      expect(chunks).toEqual(['あ'.repeat(10), 'あ'.repeat(10), 'あ'.repeat(5)]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { UsageTracker } from '../../shared/usage-tracker';
+import { FileUtils } from '../../shared/file-utils';
+import { UsageLimitError } from '../../shared/error-handler';
+import { OperationLog } from '../../shared/types';
+
+// metrics.ts は読み込み時にタイマーを起動するため（jest が終了しなくなる）
+jest.mock('../../shared/metrics', () => ({ Metrics: { recordLLMUsage: jest.fn() } }));
+
+const usageLog = (guildId: string, details: OperationLog['details']): OperationLog => ({
+  id: 'id',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  guild_id: guildId,
+  channel_id: 'unknown',
+  user_id: 'unknown',
+  operation_type: 'llm_completion',
+  status: 'success',
+  details,
+});
+
+describe('UsageTracker', () => {
+  afterEach(() => {
+    delete process.env.LLM_PRICES;
+    jest.restoreAllMocks();
+  });
+
+  describe('estimateCost', () => {
+    test('should use the longest matching model prefix', () => {
+      // gpt-4o-mini: $0.15 / $0.60 per 1M tokens
+      expect(UsageTracker.estimateCost('openai', 'gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000)).toBeCloseTo(0.75);
+      expect(UsageTracker.estimateCost('openai', 'gpt-4o', 1_000_000, 0)).toBeCloseTo(2.5);
+    });
+
+    test('should return null for unknown models and zero for local servers', () => {
+      expect(UsageTracker.estimateCost('azure', 'my-deployment', 100, 100)).toBeNull();
+      expect(UsageTracker.estimateCost('openai_compatible', 'llama3.1', 100, 100)).toBe(0);
+    });
+
+    test('should apply prices from LLM_PRICES', () => {
+      process.env.LLM_PRICES = JSON.stringify({ 'my-deployment': [1, 2] });
+      expect(UsageTracker.estimateCost('azure', 'my-deployment', 1_000_000, 1_000_000)).toBeCloseTo(3);
+    });
+  });
+
+  describe('aggregate', () => {
+    test('should sum usage for the guild by operation', () => {
+      const logs: OperationLog[] = [
+        usageLog('g1', { llm_operation: 'summary', prompt_tokens: 100, completion_tokens: 10, estimated_cost_usd: 0.01 }),
+        usageLog('g1', { llm_operation: 'summary', prompt_tokens: 200, completion_tokens: 20, estimated_cost_usd: 0.02 }),
+        usageLog('g1', { llm_operation: 'tweet', prompt_tokens: 50, completion_tokens: 5 }),
+        usageLog('g2', { llm_operation: 'summary', prompt_tokens: 999, completion_tokens: 999, estimated_cost_usd: 9 }),
+        { ...usageLog('g1', { file_name: 'a.txt' }), operation_type: 'file_upload' },
+      ];
+
+      const summary = UsageTracker.aggregate(logs, 'g1');
+
+      expect(summary.calls).toBe(3);
+      expect(summary.promptTokens).toBe(350);
+      expect(summary.completionTokens).toBe(35);
+      expect(summary.costUsd).toBeCloseTo(0.03);
+      expect(summary.unpricedCalls).toBe(1);
+      expect(summary.byOperation.summary).toMatchObject({ calls: 2, promptTokens: 300, completionTokens: 30 });
+      expect(summary.byOperation.tweet).toMatchObject({ calls: 1, unpricedCalls: 1 });
+      expect(summary.byOperation.format).toBeUndefined();
+    });
+  });
+
+  describe('acquire', () => {
+    test('should allow everything when no budget is set', async () => {
+      await expect(UsageTracker.acquire('g-none', 'u1', undefined)).resolves.toBeUndefined();
+    });
+
+    test('should refuse once the monthly token limit is reached', async () => {
+      jest.spyOn(FileUtils, 'readOperationLogs').mockImplementation(async date =>
+        date.endsWith('-01') ? [usageLog('g-tokens', { llm_operation: 'summary', prompt_tokens: 900, completion_tokens: 100 })] : []
+      );
+
+      await expect(UsageTracker.acquire('g-tokens', 'u1', { monthly_token_limit: 1001 })).resolves.toBeUndefined();
+      await expect(UsageTracker.acquire('g-tokens', 'u1', { monthly_token_limit: 1000 })).rejects.toThrow(UsageLimitError);
+    });
+
+    test('should add recorded usage to the monthly total without rereading the logs', async () => {
+      const readLogs = jest.spyOn(FileUtils, 'readOperationLogs').mockResolvedValue([]);
+      jest.spyOn(FileUtils, 'logOperation').mockResolvedValue(undefined);
+      const budget = { monthly_token_limit: 1000 };
+
+      await UsageTracker.acquire('g-running', 'u1', budget);
+      const reads = readLogs.mock.calls.length;
+      await UsageTracker.record({
+        guildId: 'g-running', operation: 'summary', provider: 'openai', model: 'gpt-4o-mini', promptTokens: 900, completionTokens: 100,
+      });
+
+      await expect(UsageTracker.acquire('g-running', 'u1', budget)).rejects.toThrow(UsageLimitError);
+      expect(readLogs).toHaveBeenCalledTimes(reads);
+    });
+
+    test('should limit each user per hour', async () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000_000);
+      const budget = { user_hourly_limit: 2 };
+
+      await UsageTracker.acquire('g-hourly', 'u1', budget);
+      await UsageTracker.acquire('g-hourly', 'u1', budget);
+      await expect(UsageTracker.acquire('g-hourly', 'u1', budget)).rejects.toThrow(UsageLimitError);
+      await expect(UsageTracker.acquire('g-hourly', 'u2', budget)).resolves.toBeUndefined();
+
+      now.mockReturnValue(1_000_000_000 + 60 * 60 * 1000);
+      await expect(UsageTracker.acquire('g-hourly', 'u1', budget)).resolves.toBeUndefined();
+    });
+  });
+});
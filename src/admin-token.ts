@@ -0,0 +1,55 @@
+import 'dotenv/config';
+import { AuthService } from './api/services/auth.service';
+
+/**
+ * /api/setup 用の管理トークンを発行・一覧・失効する。
+ *
+ *   npm run admin-token -- create <name> [guildId,...]
+ *   npm run admin-token -- list
+ *   npm run admin-token -- revoke <id>
+ */
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const authService = new AuthService();
+
+  switch (command) {
+    case 'create': {
+      const [name, guilds] = args;
+      if (!name) {
+        throw new Error('Usage: admin-token create <name> [guildId,...]');
+      }
+      const guildIds = guilds ? guilds.split(',').map(id => id.trim()).filter(Boolean) : undefined;
+      const { token, record } = await authService.createAdminToken(name, guildIds);
+      console.log(`Created token ${record.id} (${record.guild_ids ? record.guild_ids.join(', ') : 'all guilds'})`);
+      console.log('This token is shown only once:');
+      console.log(token);
+      break;
+    }
+    case 'list': {
+      const tokens = await authService.listAdminTokens();
+      if (tokens.length === 0) {
+        console.log('No admin tokens');
+      }
+      for (const token of tokens) {
+        console.log(`${token.id}\t${token.name}\t${token.guild_ids ? token.guild_ids.join(',') : 'all guilds'}\t${token.created_at}`);
+      }
+      break;
+    }
+    case 'revoke': {
+      const [id] = args;
+      if (!id) {
+        throw new Error('Usage: admin-token revoke <id>');
+      }
+      const revoked = await authService.revokeAdminToken(id);
+      console.log(revoked ? `Revoked token ${id}` : `Token ${id} not found`);
+      break;
+    }
+    default:
+      throw new Error('Usage: admin-token <create|list|revoke>');
+  }
+}
+
+main().catch(error => {
+  console.error((error as Error).message);
+  process.exit(1);
+});
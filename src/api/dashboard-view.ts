@@ -0,0 +1,204 @@
+import { GuildMapping, OperationLog } from '../shared/types';
+import { GuildOverview, OperationCounts, STATS_DAYS } from './services/dashboard.service';
+
+const OPERATION_LABELS: Record<OperationLog['operation_type'], string> = {
+  file_upload: 'ファイル保存',
+  issue_creation: 'Issue 作成',
+  gist_creation: 'Gist 作成',
+  commit_creation: 'コミット',
+  pr_creation: 'PR 作成',
+  webhook: 'Webhook',
+  llm_completion: 'LLM 呼び出し',
+};
+
+// フォーム送信後のリダイレクト先に付けるお知らせ（?notice=）
+export const DASHBOARD_NOTICES = {
+  repo_saved: 'リポジトリの紐付けを保存しました。',
+  key_saved: 'APIキーを保存しました。',
+  key_deleted: 'APIキーを削除しました。',
+} as const;
+
+export type DashboardNotice = keyof typeof DASHBOARD_NOTICES;
+
+const STYLE = `
+  body { font-family: system-ui, sans-serif; margin: 0; color: #1f2328; background: #f6f8fa; }
+  header { display: flex; justify-content: space-between; align-items: center; padding: 12px 24px; background: #24292f; color: #fff; }
+  header a { color: #fff; text-decoration: none; font-weight: bold; }
+  main { max-width: 960px; margin: 24px auto; padding: 0 16px; }
+  section { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 16px; margin-bottom: 16px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 6px 8px; border-bottom: 1px solid #d0d7de; font-size: 14px; }
+  form.inline { display: inline; }
+  input[type=text], input[type=password] { padding: 4px 6px; min-width: 240px; }
+  .notice { background: #dafbe1; border-color: #4ac26b; }
+  .error { background: #ffebe9; border-color: #ff8182; }
+  .muted { color: #656d76; }
+  .failed { color: #cf222e; }
+`;
+
+/**
+ * 管理ダッシュボードの HTML。値はすべて escape してから埋め込む。
+ */
+export class DashboardView {
+  static guildList(guilds: GuildOverview[]): string {
+    const rows = guilds.map(guild => `
+      <tr>
+        <td><a href="/dashboard/guilds/${this.escape(guild.guildId)}">${this.escape(guild.mapping?.guild_name || guild.guildId)}</a></td>
+        <td>${guild.mapping ? this.escape(`${guild.mapping.default_repo.owner}/${guild.mapping.default_repo.name}`) : '<span class="muted">未設定</span>'}</td>
+        <td>${guild.mapping?.channels?.filter(channel => this.hasChannelSettings(channel)).length || 0}</td>
+        <td>${guild.openaiKey ? '設定済み' : '<span class="muted">未設定</span>'}</td>
+        <td>${this.formatCounts(guild.stats)}</td>
+      </tr>`).join('');
+
+    return this.layout('サーバー一覧', `
+      <section>
+        <h2>管理しているサーバー</h2>
+        ${guilds.length === 0
+          ? '<p class="muted">「サーバー管理」権限を持つサーバーがありません。</p>'
+          : `<table>
+              <tr><th>サーバー</th><th>既定のリポジトリ</th><th>チャンネル別設定</th><th>APIキー</th><th>直近${STATS_DAYS}日の操作（失敗率）</th></tr>
+              ${rows}
+            </table>`}
+      </section>`);
+  }
+
+  static guildDetail(guild: GuildOverview, options: { notice?: DashboardNotice; error?: string } = {}): string {
+    const { mapping } = guild;
+    const channels = (mapping?.channels || []).filter(channel => this.hasChannelSettings(channel));
+    const byType = Object.entries(guild.stats.byType) as Array<[OperationLog['operation_type'], OperationCounts]>;
+    const removed = new Set((mapping?.removed_repos || []).map(repo => repo.full_name));
+    const formatRepo = (repo: { owner: string; name: string }) => {
+      const fullName = `${repo.owner}/${repo.name}`;
+      return this.escape(fullName) + (removed.has(fullName) ? ' <span class="failed">⚠️ App のアクセス対象外</span>' : '');
+    };
+
+    return this.layout(mapping?.guild_name || guild.guildId, `
+      ${options.notice ? `<section class="notice">${this.escape(DASHBOARD_NOTICES[options.notice])}</section>` : ''}
+      ${options.error ? `<section class="error">${this.escape(options.error)}</section>` : ''}
+
+      <section>
+        <h2>${this.escape(mapping?.guild_name || guild.guildId)}</h2>
+        <p class="muted">Guild ID: ${this.escape(guild.guildId)}</p>
+        <p>既定のリポジトリ: ${mapping ? `${formatRepo(mapping.default_repo)} (installation: ${mapping.installation_id})` : '未設定'}</p>
+        <form method="post" action="/dashboard/guilds/${this.escape(guild.guildId)}/repo">
+          <input type="text" name="repo" placeholder="owner/repo" required
+            value="${mapping ? this.escape(`${mapping.default_repo.owner}/${mapping.default_repo.name}`) : ''}">
+          <input type="text" name="installation_id" placeholder="installation ID" required
+            value="${mapping ? this.escape(String(mapping.installation_id)) : ''}">
+          <button type="submit">紐付けを保存</button>
+        </form>
+      </section>
+
+      <section>
+        <h3>チャンネル別の設定</h3>
+        ${channels.length === 0
+          ? '<p class="muted">チャンネル別の設定はありません（/config channel repo で設定できます）。</p>'
+          : `<table>
+              <tr><th>チャンネル</th><th>リポジトリ</th><th>保存モード</th><th>ラベル</th><th>要約</th></tr>
+              ${channels.map(channel => `
+                <tr>
+                  <td>#${this.escape(channel.channel_name)}</td>
+                  <td>${channel.repo_override ? formatRepo(channel.repo_override) : '<span class="muted">既定</span>'}</td>
+                  <td>${channel.save_mode ? this.escape(channel.save_mode) : '<span class="muted">既定</span>'}</td>
+                  <td>${channel.labels?.length ? this.escape(channel.labels.join(', ')) : ''}</td>
+                  <td>${channel.summarize === false ? 'なし' : '<span class="muted">既定</span>'}</td>
+                </tr>`).join('')}
+            </table>`}
+      </section>
+
+      <section>
+        <h3>LLM の APIキー</h3>
+        <p>${guild.openaiKey ? this.escape(guild.openaiKey) : '<span class="muted">未設定（サーバー共通のキーを使います）</span>'}</p>
+        <form method="post" action="/dashboard/guilds/${this.escape(guild.guildId)}/openai-key" class="inline">
+          <input type="password" name="key" placeholder="sk-..." autocomplete="off" required>
+          <button type="submit">保存</button>
+        </form>
+        ${guild.openaiKey ? `
+        <form method="post" action="/dashboard/guilds/${this.escape(guild.guildId)}/openai-key/delete" class="inline">
+          <button type="submit">削除</button>
+        </form>` : ''}
+      </section>
+
+      <section>
+        <h3>直近${STATS_DAYS}日の操作</h3>
+        <p>合計: ${this.formatCounts(guild.stats)}</p>
+        ${byType.length > 0 ? `
+        <table>
+          <tr><th>種類</th><th>件数（失敗率）</th></tr>
+          ${byType.map(([type, counts]) => `<tr><td>${OPERATION_LABELS[type]}</td><td>${this.formatCounts(counts)}</td></tr>`).join('')}
+        </table>` : ''}
+      </section>
+
+      <section>
+        <h3>最近の操作ログ</h3>
+        ${guild.recentLogs.length === 0
+          ? '<p class="muted">操作ログはありません。</p>'
+          : `<table>
+              <tr><th>日時 (UTC)</th><th>種類</th><th>結果</th><th>詳細</th></tr>
+              ${guild.recentLogs.map(log => `
+                <tr>
+                  <td>${this.escape(log.timestamp.replace('T', ' ').slice(0, 19))}</td>
+                  <td>${OPERATION_LABELS[log.operation_type] || this.escape(log.operation_type)}</td>
+                  <td class="${log.status === 'error' ? 'failed' : ''}">${this.escape(log.status)}</td>
+                  <td>${this.formatLogDetails(log)}</td>
+                </tr>`).join('')}
+            </table>`}
+      </section>`);
+  }
+
+  static message(title: string, text: string, link?: { href: string; label: string }): string {
+    return this.layout(title, `
+      <section>
+        <h2>${this.escape(title)}</h2>
+        <p>${this.escape(text)}</p>
+        ${link ? `<p><a href="${this.escape(link.href)}">${this.escape(link.label)}</a></p>` : ''}
+      </section>`, false);
+  }
+
+  static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private static layout(title: string, body: string, showLogout: boolean = true): string {
+    return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${this.escape(title)} - discord-commit</title>
+  <style>${STYLE}</style>
+</head>
+<body>
+  <header>
+    <a href="/dashboard">discord-commit 管理</a>
+    ${showLogout ? `<form method="post" action="/dashboard/logout" class="inline"><button type="submit">ログアウト</button></form>` : ''}
+  </header>
+  <main>${body}</main>
+</body>
+</html>`;
+  }
+
+  private static hasChannelSettings(channel: NonNullable<GuildMapping['channels']>[number]): boolean {
+    return !!(channel.repo_override || channel.save_mode || channel.labels?.length || channel.summarize === false);
+  }
+
+  private static formatCounts(counts: OperationCounts): string {
+    if (counts.total === 0) return '<span class="muted">0件</span>';
+    const rate = Math.round((counts.failed / counts.total) * 1000) / 10;
+    return `${counts.total}件（<span class="${counts.failed > 0 ? 'failed' : ''}">${rate}%</span>）`;
+  }
+
+  private static formatLogDetails(log: OperationLog): string {
+    const { details } = log;
+    if (details.error_message) return `<span class="failed">${this.escape(details.error_message)}</span>`;
+    if (details.github_url?.startsWith('https://')) return `<a href="${this.escape(details.github_url)}">${this.escape(details.github_url)}</a>`;
+    if (details.file_name) return this.escape(details.file_name);
+    if (details.model) return this.escape(details.model);
+    return '';
+  }
+}
@@ -0,0 +1,66 @@
+import jwt from 'jsonwebtoken';
+import { randomUUID } from 'crypto';
+import { AppError, ValidationError } from '../shared/error-handler';
+
+export interface InstallStateClaims {
+  guild_id: string;
+  guild_name: string;
+  // 紐付けの完了を知らせるチャンネルと、/config connect を実行したユーザー
+  channel_id: string;
+  user_id: string;
+}
+
+export const INSTALL_STATE_TTL_SECONDS = 60 * 60;
+// ログインセッションなど、同じ鍵で署名する他の JWT と取り違えないための audience
+const STATE_AUDIENCE = 'github-app-install';
+
+/**
+ * /config connect が発行する GitHub App インストール URL の state。
+ * GitHub はインストール後のリダイレクト（Setup URL）に state をそのまま付けて返すので、署名でどのサーバーからの接続かを確かめる。
+ * 一度使った state は id で記録し、同じリンクで二度紐付けさせない（記録は呼び出し側で行う）。
+ */
+export class InstallState {
+  static sign(claims: InstallStateClaims): string {
+    return jwt.sign(claims, this.getSecret(), {
+      algorithm: 'HS256',
+      audience: STATE_AUDIENCE,
+      expiresIn: INSTALL_STATE_TTL_SECONDS,
+      jwtid: randomUUID(),
+    });
+  }
+
+  /**
+   * 署名と有効期限を確認し、state の id・発行時刻（issuedAt）とともに返す。
+   */
+  static verify(state: string): InstallStateClaims & { id: string; issuedAt: Date } {
+    let payload: InstallStateClaims & { jti?: string; iat: number };
+    try {
+      payload = jwt.verify(state, this.getSecret(), {
+        algorithms: ['HS256'],
+        audience: STATE_AUDIENCE,
+      }) as InstallStateClaims & { jti?: string; iat: number };
+    } catch {
+      throw new ValidationError('リンクの有効期限が切れているか、不正なリンクです。Discord で /config connect をもう一度実行してください。');
+    }
+    if (!payload.jti) {
+      throw new ValidationError('リンクの有効期限が切れているか、不正なリンクです。Discord で /config connect をもう一度実行してください。');
+    }
+
+    return {
+      id: payload.jti,
+      guild_id: payload.guild_id,
+      guild_name: payload.guild_name,
+      channel_id: payload.channel_id,
+      user_id: payload.user_id,
+      issuedAt: new Date(payload.iat * 1000),
+    };
+  }
+
+  private static getSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new AppError('JWT_SECRET is not configured', 503);
+    }
+    return secret;
+  }
+}
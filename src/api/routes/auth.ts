@@ -0,0 +1,129 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Logger } from '../../shared/logger';
+import { ErrorHandler, ValidationError } from '../../shared/error-handler';
+import { Metrics } from '../../shared/metrics';
+import {
+  AuthService,
+  OAUTH_STATE_COOKIE,
+  OAUTH_STATE_TTL_SECONDS,
+  SESSION_COOKIE,
+  SESSION_TTL_SECONDS,
+} from '../services/auth.service';
+
+export async function authRoutes(fastify: FastifyInstance): Promise<void> {
+  const authService = new AuthService();
+
+  // Start Discord OAuth2 login
+  fastify.get('/discord/login', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+
+    try {
+      const { return_to } = request.query as { return_to?: string };
+      const { url, stateCookie } = authService.buildAuthorizeUrl(return_to);
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/api/auth/discord/login', 302, duration);
+
+      reply
+        .header('Set-Cookie', AuthService.buildCookie(OAUTH_STATE_COOKIE, stateCookie, OAUTH_STATE_TTL_SECONDS))
+        .redirect(url);
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/api/auth/discord/login', statusCode, duration);
+
+      Logger.error(`Failed to start Discord login`, error as Error);
+
+      reply.code(statusCode).send({
+        error: ErrorHandler.getErrorMessage(error as Error)
+      });
+    }
+  });
+
+  // Discord OAuth2 callback
+  fastify.get('/discord/callback', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+
+    try {
+      const { code, state, error } = request.query as { code?: string; state?: string; error?: string };
+
+      if (error) {
+        throw new ValidationError(`Discord login was cancelled: ${error}`);
+      }
+      if (!code || !state) {
+        throw new ValidationError('Missing code or state');
+      }
+
+      const { session, returnTo } = await authService.completeLogin(
+        code,
+        state,
+        AuthService.readCookie(request, OAUTH_STATE_COOKIE)
+      );
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/api/auth/discord/callback', 302, duration);
+
+      reply
+        .header('Set-Cookie', [
+          AuthService.buildCookie(OAUTH_STATE_COOKIE, '', 0),
+          AuthService.buildCookie(SESSION_COOKIE, session, SESSION_TTL_SECONDS),
+        ])
+        .redirect(returnTo);
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/api/auth/discord/callback', statusCode, duration);
+
+      Logger.error(`Failed to complete Discord login`, error as Error);
+
+      reply
+        .header('Set-Cookie', AuthService.buildCookie(OAUTH_STATE_COOKIE, '', 0))
+        .code(statusCode)
+        .send({
+          error: ErrorHandler.getErrorMessage(error as Error)
+        });
+    }
+  });
+
+  // Log out (clear the session cookie)
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    const duration = 0;
+    Metrics.recordHttpRequest('POST', '/api/auth/logout', 200, duration);
+
+    reply
+      .header('Set-Cookie', AuthService.buildCookie(SESSION_COOKIE, '', 0))
+      .code(200)
+      .send({ status: 'success' });
+  });
+
+  // Current caller
+  fastify.get('/me', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+
+    try {
+      const auth = await authService.authenticate(request);
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/api/auth/me', 200, duration);
+
+      reply.code(200).send({
+        status: 'success',
+        data: auth
+      });
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/api/auth/me', statusCode, duration);
+
+      reply.code(statusCode).send({
+        error: ErrorHandler.getErrorMessage(error as Error)
+      });
+    }
+  });
+}
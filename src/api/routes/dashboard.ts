@@ -0,0 +1,254 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { Logger } from '../../shared/logger';
+import { ErrorHandler, ForbiddenError, UnauthorizedError, ValidationError } from '../../shared/error-handler';
+import { Metrics } from '../../shared/metrics';
+import { SecretStore, SECRET_KEYS } from '../../shared/secret-store';
+import { AuthService, SESSION_COOKIE } from '../services/auth.service';
+import { ConfigService } from '../services/config.service';
+import { DashboardService } from '../services/dashboard.service';
+import { DashboardNotice, DashboardView, DASHBOARD_NOTICES } from '../dashboard-view';
+
+interface GuildParams {
+  guildId: string;
+}
+
+type FormBody = Record<string, string | undefined>;
+
+// ログインなしで使えるルート（プレフィックスを除いたパス）
+const PUBLIC_ROUTES = new Set(['/logout']);
+
+export async function dashboardRoutes(fastify: FastifyInstance): Promise<void> {
+  const authService = new AuthService();
+  const dashboardService = new DashboardService();
+  const configService = new ConfigService();
+
+  fastify.addContentTypeParser('application/x-www-form-urlencoded', { parseAs: 'string' }, (request, body, done) => {
+    done(null, Object.fromEntries(new URLSearchParams(body as string)));
+  });
+
+  // 未ログインの画面表示は Discord ログインへ送る
+  fastify.addHook('onRequest', async (request: FastifyRequest, reply: FastifyReply) => {
+    const route = request.routeOptions.url?.slice(fastify.prefix.length);
+    if (route && PUBLIC_ROUTES.has(route)) return;
+
+    try {
+      request.auth = await authService.authenticate(request);
+    } catch (error) {
+      if (error instanceof UnauthorizedError && request.method === 'GET') {
+        return reply.redirect(`/api/auth/discord/login?return_to=${encodeURIComponent(request.url)}`);
+      }
+      throw error;
+    }
+
+    // セッション Cookie は SameSite=Lax なので別サイトからの POST には付かないが、念のため Origin も確認する
+    if (request.method === 'POST') {
+      assertSameOrigin(request);
+    }
+  });
+
+  fastify.setErrorHandler(async (error, request, reply) => {
+    const statusCode = ErrorHandler.getStatusCode(error);
+    Metrics.recordHttpRequest(request.method, request.routeOptions.url || request.url, statusCode, reply.elapsedTime / 1000);
+
+    reply.code(statusCode).type('text/html').send(DashboardView.message(
+      statusCode === 403 ? '権限がありません' : 'エラー',
+      ErrorHandler.getErrorMessage(error),
+      statusCode === 401 ? { href: '/api/auth/discord/login?return_to=/dashboard', label: 'Discord でログイン' } : undefined
+    ));
+  });
+
+  // Guild list
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+
+    try {
+      const guilds = await dashboardService.listGuilds(request.auth!);
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/dashboard', 200, duration);
+
+      reply.code(200).type('text/html').send(DashboardView.guildList(guilds));
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/dashboard', statusCode, duration);
+
+      Logger.error(`Failed to render dashboard`, error as Error);
+
+      reply.code(statusCode).type('text/html').send(
+        DashboardView.message('エラー', ErrorHandler.getErrorMessage(error as Error))
+      );
+    }
+  });
+
+  // Guild detail
+  fastify.get('/guilds/:guildId', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const { guildId } = request.params as GuildParams;
+
+    try {
+      authService.assertGuildAccess(request.auth, guildId);
+
+      const { notice } = request.query as { notice?: string };
+      const guild = await dashboardService.getGuild(guildId);
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/dashboard/guilds/:guildId', 200, duration);
+
+      reply.code(200).type('text/html').send(DashboardView.guildDetail(guild, {
+        ...(notice && notice in DASHBOARD_NOTICES ? { notice: notice as DashboardNotice } : {}),
+      }));
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/dashboard/guilds/:guildId', statusCode, duration);
+
+      Logger.error(`Failed to render guild dashboard`, error as Error, { guildId });
+
+      reply.code(statusCode).type('text/html').send(DashboardView.message(
+        statusCode === 403 ? '権限がありません' : 'エラー',
+        ErrorHandler.getErrorMessage(error as Error),
+        { href: '/dashboard', label: 'サーバー一覧に戻る' }
+      ));
+    }
+  });
+
+  // Link the default repository (same as /config repo)
+  fastify.post('/guilds/:guildId/repo', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const { guildId } = request.params as GuildParams;
+
+    try {
+      authService.assertGuildAccess(request.auth, guildId);
+
+      const body = (request.body || {}) as FormBody;
+      const repo = body.repo?.trim();
+      const installationId = body.installation_id?.trim();
+      if (!repo || !installationId) {
+        throw new ValidationError('リポジトリ（owner/repo）と installation ID を入力してください。');
+      }
+
+      const mapping = (await dashboardService.getGuild(guildId)).mapping;
+      await configService.configureGuild(guildId, mapping?.guild_name || guildId, repo, installationId);
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('POST', '/dashboard/guilds/:guildId/repo', 303, duration);
+
+      reply.redirect(`/dashboard/guilds/${encodeURIComponent(guildId)}?notice=repo_saved`, 303);
+
+    } catch (error) {
+      await sendFormError(request, reply, '/dashboard/guilds/:guildId/repo', guildId, error as Error, startTime);
+    }
+  });
+
+  // Save the guild's LLM API key (same as /config openai_key)
+  fastify.post('/guilds/:guildId/openai-key', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const { guildId } = request.params as GuildParams;
+
+    try {
+      authService.assertGuildAccess(request.auth, guildId);
+
+      const key = ((request.body || {}) as FormBody).key?.trim();
+      if (!key) {
+        throw new ValidationError('APIキーを入力してください。');
+      }
+
+      await SecretStore.put(guildId, SECRET_KEYS.openai, key);
+      Logger.info('Guild API key updated from dashboard', { guildId, subject: request.auth?.subject });
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('POST', '/dashboard/guilds/:guildId/openai-key', 303, duration);
+
+      reply.redirect(`/dashboard/guilds/${encodeURIComponent(guildId)}?notice=key_saved`, 303);
+
+    } catch (error) {
+      await sendFormError(request, reply, '/dashboard/guilds/:guildId/openai-key', guildId, error as Error, startTime);
+    }
+  });
+
+  // Delete the guild's LLM API key (same as /config delete_openai)
+  fastify.post('/guilds/:guildId/openai-key/delete', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const { guildId } = request.params as GuildParams;
+
+    try {
+      authService.assertGuildAccess(request.auth, guildId);
+
+      await SecretStore.remove(guildId, SECRET_KEYS.openai);
+      Logger.info('Guild API key deleted from dashboard', { guildId, subject: request.auth?.subject });
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('POST', '/dashboard/guilds/:guildId/openai-key/delete', 303, duration);
+
+      reply.redirect(`/dashboard/guilds/${encodeURIComponent(guildId)}?notice=key_deleted`, 303);
+
+    } catch (error) {
+      await sendFormError(request, reply, '/dashboard/guilds/:guildId/openai-key/delete', guildId, error as Error, startTime);
+    }
+  });
+
+  // Log out
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    Metrics.recordHttpRequest('POST', '/dashboard/logout', 200, 0);
+
+    reply
+      .header('Set-Cookie', AuthService.buildCookie(SESSION_COOKIE, '', 0))
+      .code(200)
+      .type('text/html')
+      .send(DashboardView.message('ログアウトしました', 'ダッシュボードからログアウトしました。', {
+        href: '/dashboard',
+        label: '再度ログイン',
+      }));
+  });
+
+  // 入力エラーはフォームのある画面にメッセージ付きで戻す
+  async function sendFormError(
+    request: FastifyRequest,
+    reply: FastifyReply,
+    route: string,
+    guildId: string,
+    error: Error,
+    startTime: number
+  ): Promise<void> {
+    const duration = (Date.now() - startTime) / 1000;
+    const statusCode = ErrorHandler.getStatusCode(error);
+
+    Metrics.recordHttpRequest('POST', route, statusCode, duration);
+
+    Logger.error(`Dashboard form submission failed`, error, { guildId, route, subject: request.auth?.subject });
+
+    if (error instanceof ForbiddenError || statusCode >= 500) {
+      reply.code(statusCode).type('text/html').send(DashboardView.message(
+        statusCode === 403 ? '権限がありません' : 'エラー',
+        ErrorHandler.getErrorMessage(error),
+        { href: '/dashboard', label: 'サーバー一覧に戻る' }
+      ));
+      return;
+    }
+
+    const guild = await dashboardService.getGuild(guildId);
+    reply.code(statusCode).type('text/html').send(
+      DashboardView.guildDetail(guild, { error: ErrorHandler.getErrorMessage(error) })
+    );
+  }
+}
+
+function assertSameOrigin(request: FastifyRequest): void {
+  const origin = request.headers.origin;
+  if (!origin) return;
+
+  let host: string | null;
+  try {
+    host = new URL(origin).host;
+  } catch {
+    host = null;
+  }
+  if (host !== request.headers.host) {
+    throw new ForbiddenError('Cross-origin form submission is not allowed', { origin });
+  }
+}
@@ -4,6 +4,8 @@ import { ErrorHandler, ValidationError, NotFoundError } from '../../shared/error
 import { Metrics } from '../../shared/metrics';
 import { FileUtils } from '../../shared/file-utils';
 import { GuildMapping } from '../../shared/types';
+import { AuthService } from '../services/auth.service';
+import { ConfigService } from '../services/config.service';
 
 interface CreateMappingRequest {
   guild_id: string;
@@ -23,12 +25,33 @@ interface CreateMappingRequest {
   }>;
 }
 
-interface UpdateMappingRequest extends Partial<CreateMappingRequest> {
-  guild_id: string;
+interface UpdateMappingRequest {
+  guild_id?: string;
+  guild_name?: string;
+  installation_id?: number;
+  default_repo?: {
+    owner: string;
+    name: string;
+  };
 }
 
+// 認証なしで呼べるルート（プレフィックスを除いたパス）
+const PUBLIC_ROUTES = new Set(['/health']);
+
+// PUT で変更できる項目。チャンネル単位の設定などは /config から変更する
+const UPDATABLE_FIELDS = new Set(['guild_id', 'guild_name', 'installation_id', 'default_repo']);
+
 export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
-  
+  const authService = new AuthService();
+  const configService = new ConfigService();
+
+  // 管理トークンか Discord ログインのセッションを必須にする。ギルドごとの権限は各ルートで確認する
+  fastify.addHook('onRequest', async (request: FastifyRequest) => {
+    const route = request.routeOptions.url?.slice(fastify.prefix.length);
+    if (route && PUBLIC_ROUTES.has(route)) return;
+    request.auth = await authService.authenticate(request);
+  });
+
   // Get guild mapping
   fastify.get('/guild/:guildId', async (request: FastifyRequest, reply: FastifyReply) => {
     const startTime = Date.now();
@@ -39,6 +62,7 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
       if (!guildId) {
         throw new ValidationError('Guild ID is required');
       }
+      authService.assertGuildAccess(request.auth, guildId);
 
       Logger.info(`Getting guild mapping`, { guildId });
 
@@ -87,6 +111,7 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
       if (!body.default_repo.owner || !body.default_repo.name) {
         throw new ValidationError('default_repo must have owner and name');
       }
+      authService.assertGuildAccess(request.auth, body.guild_id);
 
       Logger.info(`Creating guild mapping`, {
         guildId: body.guild_id,
@@ -94,29 +119,37 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
         defaultRepo: `${body.default_repo.owner}/${body.default_repo.name}`
       });
 
-      // Check if installation exists
-      const installation = await FileUtils.getInstallation(body.installation_id);
-      if (!installation) {
-        throw new NotFoundError('GitHub App installation not found');
-      }
-
       // Check if guild mapping already exists
       const existingMapping = await FileUtils.getGuildMapping(body.guild_id);
       if (existingMapping) {
         throw new ValidationError('Guild mapping already exists. Use PUT to update.');
       }
 
-      const mapping: GuildMapping = {
-        guild_id: body.guild_id,
-        guild_name: body.guild_name,
-        installation_id: body.installation_id,
-        default_repo: body.default_repo,
-        channels: body.channels || [],
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
+      // チャンネル別のリポジトリも、この installation から書き込めるものに限る
+      for (const channel of body.channels || []) {
+        if (channel.repo_override) {
+          await configService.verifyRepoAccess(body.installation_id, `${channel.repo_override.owner}/${channel.repo_override.name}`);
+        }
+      }
 
-      await FileUtils.saveGuildMapping(mapping);
+      // installation が他のギルドに紐付いていないこと・default_repo にアクセスできることを確認して保存する
+      await configService.configureGuild(
+        body.guild_id,
+        body.guild_name,
+        `${body.default_repo.owner}/${body.default_repo.name}`,
+        String(body.installation_id)
+      );
+
+      let mapping = await FileUtils.getGuildMapping(body.guild_id);
+      if (body.channels?.length) {
+        mapping = await configService.updateGuildSettings(body.guild_id, {
+          channels: body.channels.map(channel => ({
+            channel_id: channel.channel_id,
+            channel_name: channel.channel_name,
+            ...(channel.repo_override ? { repo_override: { owner: channel.repo_override.owner, name: channel.repo_override.name } } : {})
+          }))
+        });
+      }
 
       const duration = (Date.now() - startTime) / 1000;
       Metrics.recordHttpRequest('POST', '/api/setup/guild', 201, duration);
@@ -154,31 +187,46 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
       if (!guildId) {
         throw new ValidationError('Guild ID is required');
       }
+      authService.assertGuildAccess(request.auth, guildId);
 
       Logger.info(`Updating guild mapping`, { guildId });
 
+      const unsupported = Object.keys(body || {}).filter(key => !UPDATABLE_FIELDS.has(key));
+      if (unsupported.length > 0) {
+        throw new ValidationError(`Unsupported fields: ${unsupported.join(', ')}`);
+      }
+      if (body.guild_id && body.guild_id !== guildId) {
+        throw new ValidationError('guild_id cannot be changed');
+      }
+      if (body.default_repo && (!body.default_repo.owner || !body.default_repo.name)) {
+        throw new ValidationError('default_repo must have owner and name');
+      }
+
       const existingMapping = await FileUtils.getGuildMapping(guildId);
       if (!existingMapping) {
         throw new NotFoundError('Guild mapping not found');
       }
 
-      // Validate installation if provided
-      if (body.installation_id && body.installation_id !== existingMapping.installation_id) {
-        const installation = await FileUtils.getInstallation(body.installation_id);
-        if (!installation) {
-          throw new NotFoundError('GitHub App installation not found');
-        }
+      let updatedMapping: GuildMapping;
+      if (body.installation_id !== undefined || body.default_repo) {
+        // installation・リポジトリの変更は、他のギルドの installation でないこととアクセスできることを確認する
+        const repo = body.default_repo || existingMapping.default_repo;
+        await configService.configureGuild(
+          guildId,
+          body.guild_name || existingMapping.guild_name,
+          `${repo.owner}/${repo.name}`,
+          String(body.installation_id ?? existingMapping.installation_id)
+        );
+        updatedMapping = (await FileUtils.getGuildMapping(guildId))!;
+      } else {
+        updatedMapping = {
+          ...existingMapping,
+          ...(body.guild_name ? { guild_name: body.guild_name } : {}),
+          updated_at: new Date().toISOString()
+        };
+        await FileUtils.saveGuildMapping(updatedMapping);
       }
 
-      const updatedMapping: GuildMapping = {
-        ...existingMapping,
-        ...body,
-        guild_id: guildId, // Ensure guild_id doesn't change
-        updated_at: new Date().toISOString()
-      };
-
-      await FileUtils.saveGuildMapping(updatedMapping);
-
       const duration = (Date.now() - startTime) / 1000;
       Metrics.recordHttpRequest('PUT', '/api/setup/guild/:guildId', 200, duration);
 
@@ -215,6 +263,7 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
       if (!guildId) {
         throw new ValidationError('Guild ID is required');
       }
+      authService.assertGuildAccess(request.auth, guildId);
 
       Logger.info(`Deleting guild mapping`, { guildId });
 
@@ -257,30 +306,20 @@ export async function setupRoutes(fastify: FastifyInstance): Promise<void> {
       Logger.info(`Listing installations`);
 
       // This is a simple implementation - in production you might want pagination
-      const installations = [];
-      
-      // Read all installation files
-      const fs = await import('fs/promises');
-      const path = await import('path');
-      
-      try {
-        const installationsDir = path.join(process.env.DATA_PATH || './data', 'installations');
-        const files = await fs.readdir(installationsDir);
-        
-        for (const file of files) {
-          if (file.endsWith('.yml')) {
-            const installationId = parseInt(file.replace('.yml', ''));
-            const installation = await FileUtils.getInstallation(installationId);
-            if (installation) {
-              installations.push(installation);
-            }
-          }
-        }
-      } catch (error) {
-        // Directory might not exist yet
-        Logger.debug('Installations directory not found or empty');
+      // ギルドを限定された呼び出し元には、そのギルドに紐付いている Installation だけを返す
+      const guildIds = request.auth?.guildIds ?? [];
+      let allowedInstallationIds: Set<number> | null = null;
+      if (guildIds !== 'all') {
+        const mappings = await Promise.all(guildIds.map(guildId => FileUtils.getGuildMapping(guildId)));
+        allowedInstallationIds = new Set(
+          mappings.filter((mapping): mapping is GuildMapping => !!mapping).map(mapping => mapping.installation_id)
+        );
       }
 
+      const installations = (await FileUtils.listInstallations()).filter(
+        installation => !allowedInstallationIds || allowedInstallationIds.has(installation.installation_id)
+      );
+
       const duration = (Date.now() - startTime) / 1000;
       Metrics.recordHttpRequest('GET', '/api/setup/installations', 200, duration);
 
@@ -1,11 +1,17 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
-import crypto from 'crypto';
 import { Logger } from '../../shared/logger';
-import { ErrorHandler, UnauthorizedError } from '../../shared/error-handler';
+import { ErrorHandler, ForbiddenError, UnauthorizedError, ValidationError } from '../../shared/error-handler';
 import { Metrics } from '../../shared/metrics';
+import { IdempotencyStore } from '../../shared/idempotency-store';
+import { ConfigService } from '../services/config.service';
+import { DiscordNotifyService } from '../services/discord-notify.service';
 import { GitHubService } from '../services/github.service';
+import { IssueSyncService, IssueEventPayload } from '../services/issue-sync.service';
+import { DashboardView } from '../dashboard-view';
+import { InstallState } from '../install-state';
+import { WebhookSignature } from '../webhook-signature';
 
-interface WebhookPayload {
+interface WebhookPayload extends IssueEventPayload {
   action: string;
   installation?: {
     id: number;
@@ -16,25 +22,63 @@ interface WebhookPayload {
     updated_at: string;
   };
   repositories?: any[];
+  repositories_added?: any[];
+  repositories_removed?: any[];
 }
 
+// GitHub App の Setup URL に付くクエリ
+// インストール時のユーザー認可（OAuth）を有効にすると code も付く
+interface SetupQuery {
+  installation_id?: string;
+  setup_action?: string;
+  state?: string;
+  code?: string;
+}
+
+interface ProcessedDelivery {
+  event: string;
+  action?: string;
+}
+
+// 署名検証用に、JSON として解析する前の本文を残しておく
+type RawBodyRequest = FastifyRequest & { rawBody?: Buffer };
+
+// GitHub は失敗時や手動操作で同じ配信（x-github-delivery）を再送するので、処理済みの配信は二重に処理しない
+const processedDeliveries = new IdempotencyStore<ProcessedDelivery>('webhook-deliveries');
+// 使用済みの接続リンク（state の id）。同じリンクを使い回して別の installation を紐付けさせない
+const usedInstallStates = new IdempotencyStore<never>('used-install-states');
+
 export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
   const githubService = new GitHubService();
+  const issueSyncService = new IssueSyncService();
+  const configService = new ConfigService();
+  const discordNotifyService = new DiscordNotifyService();
+
+  // 署名は受信したバイト列に対して計算されるため、このプラグイン内だけ JSON の解析時に生の本文を保持する
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    (request as RawBodyRequest).rawBody = body as Buffer;
+    try {
+      done(null, JSON.parse((body as Buffer).toString('utf8')));
+    } catch {
+      done(new ValidationError('Invalid JSON payload'), undefined);
+    }
+  });
 
   fastify.post('/github', async (request: FastifyRequest, reply: FastifyReply) => {
     const startTime = Date.now();
     
     try {
       // Verify webhook signature
-      const signature = request.headers['x-hub-signature-256'] as string;
-      const payload = JSON.stringify(request.body);
-      
-      if (!verifyGitHubSignature(payload, signature)) {
+      const signature = request.headers['x-hub-signature-256'] as string | undefined;
+      const rawBody = (request as RawBodyRequest).rawBody;
+
+      if (!rawBody || !WebhookSignature.verify(rawBody, signature)) {
         throw new UnauthorizedError('Invalid webhook signature');
       }
 
       const event = request.headers['x-github-event'] as string;
-      const deliveryId = request.headers['x-github-delivery'] as string;
+      const deliveryId = request.headers['x-github-delivery'] as string | undefined;
 
       Logger.info(`Received GitHub webhook`, {
         event,
@@ -42,12 +86,12 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
         action: (request.body as WebhookPayload).action
       });
 
-      await handleWebhookEvent(event, request.body as WebhookPayload, githubService);
+      const processed = await handleWebhookEvent(event, deliveryId, request.body as WebhookPayload, githubService, issueSyncService);
 
       const duration = (Date.now() - startTime) / 1000;
       Metrics.recordHttpRequest('POST', '/webhooks/github', 200, duration);
 
-      reply.code(200).send({ status: 'success' });
+      reply.code(200).send({ status: processed ? 'success' : 'duplicate' });
 
     } catch (error) {
       const duration = (Date.now() - startTime) / 1000;
@@ -66,6 +110,91 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
     }
   });
 
+  // GitHub App setup callback (redirected here after /config connect)
+  fastify.get('/github/setup', async (request: FastifyRequest, reply: FastifyReply) => {
+    const startTime = Date.now();
+    const query = request.query as SetupQuery;
+
+    try {
+      // Organization の承認待ち（インストールのリクエストのみ）の場合は installation_id が付かない
+      if (query.setup_action === 'request') {
+        const duration = (Date.now() - startTime) / 1000;
+        Metrics.recordHttpRequest('GET', '/webhooks/github/setup', 200, duration);
+
+        reply.code(200).type('text/html').send(DashboardView.message(
+          'インストールの承認待ち',
+          'Organization の管理者がインストールを承認した後、Discord で /config connect をもう一度実行してください。'
+        ));
+        return;
+      }
+
+      if (!query.state || !query.installation_id) {
+        throw new ValidationError('Discord の /config connect から表示されたリンクを使ってインストールしてください。');
+      }
+      if (!query.code) {
+        throw new ValidationError('インストールしたユーザーを確認できません。GitHub App の設定で「Request user authorization (OAuth) during installation」を有効にしてください。');
+      }
+
+      const claims = InstallState.verify(query.state);
+      if (!(await usedInstallStates.claim(claims.id))) {
+        throw new ValidationError('このリンクは既に使われています。Discord で /config connect をもう一度実行してください。');
+      }
+      let repo: string;
+      try {
+        ({ repo } = await configService.connectInstallation(
+          claims.guild_id,
+          claims.guild_name,
+          query.installation_id,
+          query.code,
+          claims.issuedAt
+        ));
+      } catch (error) {
+        // 所有者の確認で拒否されたリンクは使用済みのままにし、それ以外（GitHub の一時的な障害など）は同じリンクでやり直せるようにする
+        if (!(error instanceof ForbiddenError)) {
+          await usedInstallStates.release(claims.id);
+        }
+        throw error;
+      }
+
+      // 完了の通知は補助的なものなので、送れなくても紐付けは成功として扱う
+      try {
+        await discordNotifyService.sendMessage(
+          claims.channel_id,
+          `✅ <@${claims.user_id}> GitHub App を紐付けました。既定のリポジトリ: \`${repo}\`\n別のリポジトリにする場合は /config repo で変更できます。`
+        );
+      } catch (error) {
+        Logger.warn('Failed to post installation confirmation', {
+          guildId: claims.guild_id,
+          channelId: claims.channel_id,
+          error: (error as Error).message
+        });
+      }
+
+      const duration = (Date.now() - startTime) / 1000;
+      Metrics.recordHttpRequest('GET', '/webhooks/github/setup', 200, duration);
+
+      reply.code(200).type('text/html').send(DashboardView.message(
+        '紐付けが完了しました',
+        `${claims.guild_name} に GitHub App を紐付けました（既定のリポジトリ: ${repo}）。Discord に戻ってご利用ください。`
+      ));
+
+    } catch (error) {
+      const duration = (Date.now() - startTime) / 1000;
+      const statusCode = ErrorHandler.getStatusCode(error as Error);
+
+      Metrics.recordHttpRequest('GET', '/webhooks/github/setup', statusCode, duration);
+
+      Logger.error(`GitHub App setup callback failed`, error as Error, {
+        installationId: query.installation_id,
+        setupAction: query.setup_action
+      });
+
+      reply.code(statusCode).type('text/html').send(
+        DashboardView.message('紐付けに失敗しました', ErrorHandler.getErrorMessage(error as Error))
+      );
+    }
+  });
+
   // Health check endpoint
   fastify.get('/health', async (request: FastifyRequest, reply: FastifyReply) => {
     const startTime = Date.now();
@@ -97,32 +226,36 @@ export async function webhookRoutes(fastify: FastifyInstance): Promise<void> {
   });
 }
 
-function verifyGitHubSignature(payload: string, signature: string): boolean {
-  if (!signature) {
-    return false;
+/**
+ * 配信を処理する。処理済みの deliveryId なら何もせず false を返す（失敗した配信は記録しないので再送で再実行される）。
+ */
+async function handleWebhookEvent(
+  event: string,
+  deliveryId: string | undefined,
+  payload: WebhookPayload,
+  githubService: GitHubService,
+  issueSyncService: IssueSyncService
+): Promise<boolean> {
+  if (!deliveryId) {
+    await dispatchWebhookEvent(event, payload, githubService, issueSyncService);
+    return true;
   }
 
-  const secret = process.env.GITHUB_WEBHOOK_SECRET;
-  if (!secret) {
-    Logger.error('GITHUB_WEBHOOK_SECRET not configured');
-    return false;
+  const { duplicate } = await processedDeliveries.run(deliveryId, async () => {
+    await dispatchWebhookEvent(event, payload, githubService, issueSyncService);
+    return { event, ...(payload.action ? { action: payload.action } : {}) };
+  });
+  if (duplicate) {
+    Logger.info('Skipping already processed webhook delivery', { event, deliveryId });
   }
-
-  const expectedSignature = 'sha256=' + crypto
-    .createHmac('sha256', secret)
-    .update(payload, 'utf8')
-    .digest('hex');
-
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+  return !duplicate;
 }
 
-async function handleWebhookEvent(
+async function dispatchWebhookEvent(
   event: string,
   payload: WebhookPayload,
-  githubService: GitHubService
+  githubService: GitHubService,
+  issueSyncService: IssueSyncService
 ): Promise<void> {
   switch (event) {
     case 'installation':
@@ -133,6 +266,14 @@ async function handleWebhookEvent(
       await handleInstallationRepositoriesEvent(payload, githubService);
       break;
     
+    case 'issues':
+      await issueSyncService.handleIssuesEvent(payload);
+      break;
+
+    case 'issue_comment':
+      await issueSyncService.handleIssueCommentEvent(payload);
+      break;
+
     case 'ping':
       Logger.info('Received ping webhook');
       break;
@@ -176,6 +317,8 @@ async function handleInstallationEvent(
         installationId: installation.id,
         account: installation.account.login
       });
+
+      await githubService.handleInstallationSuspended(installation.id, payload, true);
       break;
 
     case 'unsuspend':
@@ -183,6 +326,8 @@ async function handleInstallationEvent(
         installationId: installation.id,
         account: installation.account.login
       });
+
+      await githubService.handleInstallationSuspended(installation.id, payload, false);
       break;
 
     default:
@@ -204,21 +349,20 @@ async function handleInstallationRepositoriesEvent(
     case 'added':
       Logger.info(`Repositories added to installation`, {
         installationId: installation.id,
-        repositoryCount: payload.repositories?.length || 0
+        repositoryCount: payload.repositories_added?.length || 0
       });
       
-      // Update installation data with new repositories
-      await githubService.handleInstallationCreated(installation.id, payload);
+      await githubService.handleRepositoriesAdded(installation.id, payload);
       break;
 
     case 'removed':
       Logger.info(`Repositories removed from installation`, {
         installationId: installation.id,
-        repositoryCount: payload.repositories?.length || 0
+        repositoryCount: payload.repositories_removed?.length || 0
       });
       
-      // Update installation data
-      await githubService.handleInstallationCreated(installation.id, payload);
+      // 紐付け先のリポジトリが外された場合はフラグを立てて管理用チャンネルに通知する
+      await githubService.handleRepositoriesRemoved(installation.id, payload);
       break;
 
     default:
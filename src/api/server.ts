@@ -4,8 +4,11 @@ import cors from '@fastify/cors';
 import { Logger } from '../shared/logger';
 import { ErrorHandler } from '../shared/error-handler';
 import { Metrics } from '../shared/metrics';
+import { Resilience } from '../shared/resilience';
 import { webhookRoutes } from './routes/webhooks';
 import { setupRoutes } from './routes/setup';
+import { authRoutes } from './routes/auth';
+import { dashboardRoutes } from './routes/dashboard';
 
 export class APIServer {
   private app: FastifyInstance;
@@ -69,11 +72,15 @@ export class APIServer {
         const duration = (Date.now() - startTime) / 1000;
         Metrics.recordHttpRequest('GET', '/health', 200, duration);
 
+        const circuitBreakers = Resilience.getStatuses();
+        const degraded = Object.values(circuitBreakers).some(breaker => breaker.state !== 'closed');
+
         reply.send({
-          status: 'healthy',
+          status: degraded ? 'degraded' : 'healthy',
           timestamp: new Date().toISOString(),
           uptime: process.uptime(),
-          version: process.env.npm_package_version || '1.0.0'
+          version: process.env.npm_package_version || '1.0.0',
+          circuitBreakers
         });
       } catch (error) {
         const duration = (Date.now() - startTime) / 1000;
@@ -102,6 +109,8 @@ export class APIServer {
     // API routes
     this.app.register(webhookRoutes, { prefix: '/webhooks' });
     this.app.register(setupRoutes, { prefix: '/api/setup' });
+    this.app.register(authRoutes, { prefix: '/api/auth' });
+    this.app.register(dashboardRoutes, { prefix: '/dashboard' });
 
     // 404 handler
     this.app.setNotFoundHandler(async (request, reply) => {
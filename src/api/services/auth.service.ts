@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { FastifyRequest } from 'fastify';
+import { Logger } from '../../shared/logger';
+import { AppError, ExternalServiceError, ForbiddenError, UnauthorizedError } from '../../shared/error-handler';
+import { FileUtils } from '../../shared/file-utils';
+import { AdminToken } from '../../shared/types';
+
+export interface AuthContext {
+  type: 'token' | 'discord';
+  // 管理トークン名、または Discord のユーザー ID
+  subject: string;
+  // 操作できるギルド。'all' はギルド指定のない管理トークン
+  guildIds: string[] | 'all';
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth?: AuthContext;
+  }
+}
+
+interface SessionClaims {
+  sub: string;
+  name: string;
+  guilds: string[];
+}
+
+interface OAuthStateClaims {
+  state: string;
+  return_to: string;
+}
+
+interface DiscordGuild {
+  id: string;
+  name: string;
+  owner?: boolean;
+  permissions: string;
+}
+
+const TOKEN_PREFIX = 'dgb_';
+export const SESSION_COOKIE = 'dgb_session';
+export const OAUTH_STATE_COOKIE = 'dgb_oauth_state';
+export const SESSION_TTL_SECONDS = 8 * 60 * 60;
+export const OAUTH_STATE_TTL_SECONDS = 10 * 60;
+
+// 同じ JWT_SECRET で署名する他の JWT（GitHub App インストールの state など）と取り違えないための audience
+const SESSION_AUDIENCE = 'dashboard-session';
+const OAUTH_STATE_AUDIENCE = 'discord-login-state';
+
+const DISCORD_API = 'https://discord.com/api/v10';
+// Discord の権限ビット
+const ADMINISTRATOR = 0x8n;
+const MANAGE_GUILD = 0x20n;
+
+/**
+ * /api/setup の認証。管理用 API トークン（Authorization: Bearer）と、Discord OAuth2 でログインしたセッション（Cookie の JWT）を受け付ける。
+ * Discord ログインでは「サーバー管理」権限を持つギルドだけを操作できる。
+ */
+export class AuthService {
+  /**
+   * 管理用 API トークンを発行する。トークンはこの戻り値でしか得られない（保存するのはハッシュのみ）。
+   */
+  async createAdminToken(name: string, guildIds?: string[]): Promise<{ token: string; record: AdminToken }> {
+    const token = TOKEN_PREFIX + crypto.randomBytes(32).toString('base64url');
+    const record: AdminToken = {
+      id: crypto.randomUUID(),
+      name,
+      token_hash: AuthService.hashToken(token),
+      ...(guildIds && guildIds.length > 0 ? { guild_ids: guildIds } : {}),
+      created_at: new Date().toISOString(),
+    };
+
+    const tokens = await FileUtils.getAdminTokens();
+    await FileUtils.saveAdminTokens([...tokens, record]);
+    Logger.info('Admin token created', { tokenId: record.id, name, guildIds: record.guild_ids });
+    return { token, record };
+  }
+
+  async listAdminTokens(): Promise<AdminToken[]> {
+    return FileUtils.getAdminTokens();
+  }
+
+  async revokeAdminToken(id: string): Promise<boolean> {
+    const tokens = await FileUtils.getAdminTokens();
+    const remaining = tokens.filter(token => token.id !== id);
+    if (remaining.length === tokens.length) return false;
+
+    await FileUtils.saveAdminTokens(remaining);
+    Logger.info('Admin token revoked', { tokenId: id });
+    return true;
+  }
+
+  async verifyAdminToken(token: string): Promise<AdminToken | null> {
+    if (!token.startsWith(TOKEN_PREFIX)) return null;
+    const hash = Buffer.from(AuthService.hashToken(token), 'hex');
+    const tokens = await FileUtils.getAdminTokens();
+    return tokens.find(record => {
+      const stored = Buffer.from(record.token_hash, 'hex');
+      return stored.length === hash.length && crypto.timingSafeEqual(stored, hash);
+    }) || null;
+  }
+
+  issueSession(user: { id: string; username: string }, guildIds: string[]): string {
+    const claims: SessionClaims = { sub: user.id, name: user.username, guilds: guildIds };
+    return jwt.sign(claims, this.getJwtSecret(), {
+      algorithm: 'HS256',
+      audience: SESSION_AUDIENCE,
+      expiresIn: SESSION_TTL_SECONDS,
+    });
+  }
+
+  verifySession(token: string): SessionClaims | null {
+    let claims: Partial<SessionClaims>;
+    try {
+      claims = jwt.verify(token, this.getJwtSecret(), {
+        algorithms: ['HS256'],
+        audience: SESSION_AUDIENCE,
+      }) as Partial<SessionClaims>;
+    } catch {
+      return null;
+    }
+    // 署名が正しくても形の違うトークンはセッションとして扱わない
+    if (typeof claims.sub !== 'string' || !Array.isArray(claims.guilds) || !claims.guilds.every(id => typeof id === 'string')) {
+      return null;
+    }
+    return { sub: claims.sub, name: claims.name || '', guilds: claims.guilds };
+  }
+
+  /**
+   * 管理トークン → セッション Cookie の順に認証する。どちらもなければ UnauthorizedError。
+   */
+  async authenticate(request: FastifyRequest): Promise<AuthContext> {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      const record = await this.verifyAdminToken(authorization.slice('Bearer '.length).trim());
+      if (!record) {
+        throw new UnauthorizedError('Invalid API token');
+      }
+      return { type: 'token', subject: record.name, guildIds: record.guild_ids || 'all' };
+    }
+
+    const session = AuthService.readCookie(request, SESSION_COOKIE);
+    if (session) {
+      const claims = this.verifySession(session);
+      if (!claims) {
+        throw new UnauthorizedError('Session expired. Please log in again.');
+      }
+      return { type: 'discord', subject: claims.sub, guildIds: claims.guilds };
+    }
+
+    throw new UnauthorizedError('Authentication required');
+  }
+
+  canAccessGuild(auth: AuthContext, guildId: string): boolean {
+    return auth.guildIds === 'all' || auth.guildIds.includes(guildId);
+  }
+
+  assertGuildAccess(auth: AuthContext | undefined, guildId: string): void {
+    if (!auth) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    if (!this.canAccessGuild(auth, guildId)) {
+      throw new ForbiddenError('You do not have permission to manage this guild', { guildId, subject: auth.subject });
+    }
+  }
+
+  /**
+   * Discord の認可画面の URL と、コールバックで照合する state（Cookie に入れる署名付きの値）を作る。
+   */
+  buildAuthorizeUrl(returnTo: string | undefined): { url: string; stateCookie: string } {
+    const { clientId, redirectUri } = this.getOAuthConfig();
+    const state = crypto.randomBytes(16).toString('hex');
+    const claims: OAuthStateClaims = { state, return_to: AuthService.sanitizeReturnTo(returnTo) };
+    const stateCookie = jwt.sign(claims, this.getJwtSecret(), {
+      algorithm: 'HS256',
+      audience: OAUTH_STATE_AUDIENCE,
+      expiresIn: OAUTH_STATE_TTL_SECONDS,
+    });
+
+    const params = new URLSearchParams({
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: 'identify guilds',
+      state,
+    });
+    return { url: `https://discord.com/oauth2/authorize?${params.toString()}`, stateCookie };
+  }
+
+  /**
+   * 認可コードをトークンに交換し、ユーザーと「サーバー管理」権限を持つギルドでセッションを発行する。
+   */
+  async completeLogin(code: string, state: string, stateCookie: string | undefined): Promise<{ session: string; returnTo: string }> {
+    let claims: OAuthStateClaims;
+    try {
+      claims = jwt.verify(stateCookie || '', this.getJwtSecret(), {
+        algorithms: ['HS256'],
+        audience: OAUTH_STATE_AUDIENCE,
+      }) as OAuthStateClaims;
+    } catch {
+      throw new UnauthorizedError('Login session expired. Please try again.');
+    }
+    const expected = Buffer.from(claims.state);
+    const received = Buffer.from(state);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      throw new UnauthorizedError('Invalid OAuth state');
+    }
+
+    const accessToken = await this.exchangeCode(code);
+    const user = await this.fetchDiscord<{ id: string; username: string }>('/users/@me', accessToken);
+    const guilds = await this.fetchDiscord<DiscordGuild[]>('/users/@me/guilds', accessToken);
+    const managedGuildIds = guilds.filter(guild => AuthService.canManageGuild(guild)).map(guild => guild.id);
+
+    Logger.info('Discord login completed', { userId: user.id, managedGuilds: managedGuildIds.length });
+    return { session: this.issueSession(user, managedGuildIds), returnTo: claims.return_to };
+  }
+
+  // オーナー、または ADMINISTRATOR / MANAGE_GUILD 権限を持つギルド
+  static canManageGuild(guild: { owner?: boolean; permissions: string }): boolean {
+    if (guild.owner) return true;
+    const permissions = BigInt(guild.permissions);
+    return (permissions & ADMINISTRATOR) !== 0n || (permissions & MANAGE_GUILD) !== 0n;
+  }
+
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  static readCookie(request: FastifyRequest, name: string): string | undefined {
+    for (const part of (request.headers.cookie || '').split(';')) {
+      const index = part.indexOf('=');
+      if (index < 0) continue;
+      if (part.slice(0, index).trim() === name) {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * HttpOnly の Cookie（本番では Secure）。maxAgeSeconds が 0 なら削除。
+   */
+  static buildCookie(name: string, value: string, maxAgeSeconds: number): string {
+    return [
+      `${name}=${encodeURIComponent(value)}`,
+      'Path=/',
+      `Max-Age=${maxAgeSeconds}`,
+      'HttpOnly',
+      'SameSite=Lax',
+      ...(process.env.NODE_ENV === 'production' ? ['Secure'] : []),
+    ].join('; ');
+  }
+
+  // ログイン後の戻り先は同一オリジンのパスに限る（オープンリダイレクト対策）
+  private static sanitizeReturnTo(returnTo: string | undefined): string {
+    if (!returnTo || !returnTo.startsWith('/') || returnTo.startsWith('//') || returnTo.includes('\\')) {
+      return '/';
+    }
+    return returnTo;
+  }
+
+  private async exchangeCode(code: string): Promise<string> {
+    const { clientId, clientSecret, redirectUri } = this.getOAuthConfig();
+    const response = await fetch(`${DISCORD_API}/oauth2/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: clientId,
+        client_secret: clientSecret,
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+      }),
+    });
+    if (!response.ok) {
+      if (response.status === 400 || response.status === 401) {
+        throw new UnauthorizedError('Invalid or expired authorization code');
+      }
+      throw new ExternalServiceError('Discord', `Token exchange failed: ${response.status}`);
+    }
+    const data = await response.json() as { access_token: string };
+    return data.access_token;
+  }
+
+  private async fetchDiscord<T>(path: string, accessToken: string): Promise<T> {
+    const response = await fetch(`${DISCORD_API}${path}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (!response.ok) {
+      throw new ExternalServiceError('Discord', `GET ${path} failed: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  }
+
+  private getOAuthConfig(): { clientId: string; clientSecret: string; redirectUri: string } {
+    const clientId = process.env.DISCORD_CLIENT_ID || process.env.DISCORD_APP_ID;
+    const clientSecret = process.env.DISCORD_CLIENT_SECRET;
+    const redirectUri = process.env.DISCORD_OAUTH_REDIRECT_URI;
+    if (!clientId || !clientSecret || !redirectUri) {
+      throw new AppError('Discord login is not configured (DISCORD_CLIENT_ID, DISCORD_CLIENT_SECRET, DISCORD_OAUTH_REDIRECT_URI)', 503);
+    }
+    return { clientId, clientSecret, redirectUri };
+  }
+
+  private getJwtSecret(): string {
+    const secret = process.env.JWT_SECRET;
+    if (!secret) {
+      throw new AppError('JWT_SECRET is not configured', 503);
+    }
+    return secret;
+  }
+}
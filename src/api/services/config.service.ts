@@ -2,11 +2,29 @@ import * as fs from 'fs';
 import * as path from 'path';
 import jwt from 'jsonwebtoken';
 import { Logger } from '../../shared/logger';
-import { ValidationError, ExternalServiceError } from '../../shared/error-handler';
+import { AppError, ValidationError, ExternalServiceError, ForbiddenError } from '../../shared/error-handler';
 import { FileUtils } from '../../shared/file-utils';
 import { GuildMapping as GuildMappingType, GitHubInstallation as GitHubInstallationType } from '../../shared/types';
+import { LLMProviderFactory } from './llm-provider';
+
+type ChannelMappingType = NonNullable<GuildMappingType['channels']>[number];
+
+type ChannelSettingsPatch = {
+  [K in Exclude<keyof ChannelMappingType, 'channel_id' | 'channel_name'>]?: ChannelMappingType[K] | undefined;
+};
+
+type GuildSettingsPatch = {
+  [K in Exclude<keyof GuildMappingType, 'guild_id' | 'created_at' | 'updated_at'>]?: GuildMappingType[K] | undefined;
+};
+
+// installation ごとのリポジトリ一覧のキャッシュ期間
+const REPO_CACHE_TTL_MS = 60 * 1000;
+// /config connect の発行時刻とインストールの作成時刻を比べるときの、GitHub との時計のずれの許容
+const CLOCK_SKEW_MS = 5 * 60 * 1000;
 
 export class ConfigService {
+  private readonly repoCache = new Map<string, { repos: string[]; expiresAt: number }>();
+  private appSlug: string | null = null;
   private readonly guildMappingsDir = path.join(process.cwd(), 'data', 'guild_mappings');
   private readonly installationsDir = path.join(process.cwd(), 'data', 'installations');
 
@@ -31,6 +49,38 @@ export class ConfigService {
     }
   }
 
+  validateCommitPathPattern(pattern: string): void {
+    if (pattern.startsWith('/') || pattern.split('/').some(seg => seg === '..' || seg === '')) {
+      throw new ValidationError('path はリポジトリ内の相対パスで指定してください。例: Writing/{yyyyMMddHHmm}.md');
+    }
+  }
+
+  validateBranchName(branch: string): void {
+    if (!/^[\w./-]+$/.test(branch) || branch.includes('..') || branch.startsWith('/') || branch.endsWith('/')) {
+      throw new ValidationError('branch 名が不正です。');
+    }
+  }
+
+  validateBaseUrl(baseUrl: string): void {
+    let url: URL;
+    try {
+      url = new URL(baseUrl);
+    } catch {
+      throw new ValidationError('base_url は http(s):// から始まる URL で指定してください。');
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new ValidationError('base_url は http(s):// から始まる URL で指定してください。');
+    }
+    LLMProviderFactory.assertAllowedBaseUrl(baseUrl);
+  }
+
+  validateModelName(model: string): void {
+    // 例: gpt-4o-mini / claude-3-5-haiku-latest / llama3.1:8b / org/model
+    if (!/^[\w.:/-]{1,100}$/.test(model)) {
+      throw new ValidationError('model 名が不正です。英数字と . : / - _ のみ使用できます。');
+    }
+  }
+
   validateInstallationId(installationId: string): void {
     if (!/^\d+$/.test(installationId)) {
       throw new ValidationError('installation_id は数値で指定してください。');
@@ -89,7 +139,26 @@ export class ConfigService {
   // リポジトリアクセス検証
   async validateRepoAccess(installationToken: string, repo: string): Promise<void> {
     try {
-      const response = await fetch('https://api.github.com/installation/repositories', {
+      const repos = await this.fetchInstallationRepos(installationToken);
+      const repoExists = repos.includes(repo);
+
+      if (!repoExists) {
+        throw new ValidationError('App が指定リポジトリにアクセスできません。GitHub で App のインストール対象に当該リポジトリを追加してください。');
+      }
+    } catch (error) {
+      if (error instanceof ValidationError) {
+        throw error;
+      }
+      Logger.error('リポジトリアクセス検証失敗', error as Error);
+      throw new ExternalServiceError('GitHub', 'リポジトリアクセス検証に失敗しました。');
+    }
+  }
+
+  // installation がアクセスできるリポジトリ（owner/repo）。ページをたどってすべて取得する
+  private async fetchInstallationRepos(installationToken: string): Promise<string[]> {
+    const repos: string[] = [];
+    for (let page = 1; ; page++) {
+      const response = await fetch(`https://api.github.com/installation/repositories?per_page=100&page=${page}`, {
         headers: {
           'Authorization': `token ${installationToken}`,
           'Accept': 'application/vnd.github.v3+json'
@@ -101,19 +170,52 @@ export class ConfigService {
       }
 
       const data = await response.json() as any;
-      const repos = data.repositories || [];
-      const repoExists = repos.some((r: any) => r.full_name === repo);
-
-      if (!repoExists) {
-        throw new ValidationError('App が指定リポジトリにアクセスできません。GitHub で App のインストール対象に当該リポジトリを追加してください。');
+      const pageRepos: string[] = (data.repositories || []).map((r: any) => r.full_name);
+      repos.push(...pageRepos);
+      if (pageRepos.length < 100 || repos.length >= (data.total_count ?? 0)) {
+        return repos;
       }
-    } catch (error) {
-      if (error instanceof ValidationError) {
-        throw error;
+    }
+  }
+
+  // autocomplete から入力のたびに呼ばれるため、短時間キャッシュする
+  async listInstallationRepos(installationId: string): Promise<string[]> {
+    const cached = this.repoCache.get(installationId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.repos;
+    }
+
+    const installationToken = await this.getInstallationToken(installationId);
+    const repos = await this.fetchInstallationRepos(installationToken);
+    this.repoCache.set(installationId, { repos, expiresAt: Date.now() + REPO_CACHE_TTL_MS });
+    return repos;
+  }
+
+  // このサーバーで選べる installation。このサーバーに紐付け済みのものだけ（他人のインストールのリポジトリ名を見せない）。
+  // まだ紐付けていない installation は /config connect でインストールしたユーザーが紐付ける
+  async listSelectableInstallations(guildId: string): Promise<GitHubInstallationType[]> {
+    const [installations, mapping] = await Promise.all([FileUtils.listInstallations(), FileUtils.getGuildMapping(guildId)]);
+
+    return installations.filter(installation =>
+      !installation.suspended_at && installation.installation_id === mapping?.installation_id
+    );
+  }
+
+  // repo にアクセスできる installation を選べるものの中から探す（installation を省略した /config repo 用）
+  async findInstallationForRepo(guildId: string, repo: string): Promise<{ installationId: string; repo: string } | null> {
+    for (const installation of await this.listSelectableInstallations(guildId)) {
+      const installationId = String(installation.installation_id);
+      try {
+        const found = (await this.listInstallationRepos(installationId))
+          .find(fullName => fullName.toLowerCase() === repo.toLowerCase());
+        if (found) {
+          return { installationId, repo: found };
+        }
+      } catch (error) {
+        Logger.warn('Failed to list installation repositories', { installationId, error: (error as Error).message });
       }
-      Logger.error('リポジトリアクセス検証失敗', error as Error);
-      throw new ExternalServiceError('GitHub', 'リポジトリアクセス検証に失敗しました。');
     }
+    return null;
   }
 
   // インストール情報取得（App JWT で認証）
@@ -138,6 +240,33 @@ export class ConfigService {
     }
   }
 
+  // GitHub App のインストール画面の URL。state はインストール後に Setup URL へそのまま返される
+  async getAppInstallUrl(state: string): Promise<string> {
+    const slug = await this.getAppSlug();
+    return `https://github.com/apps/${slug}/installations/new?state=${encodeURIComponent(state)}`;
+  }
+
+  // App の slug（GITHUB_APP_SLUG 未設定時に App JWT で取得）。App の Bot ユーザーは <slug>[bot]
+  async getAppSlug(): Promise<string> {
+    if (process.env.GITHUB_APP_SLUG) return process.env.GITHUB_APP_SLUG;
+    if (this.appSlug) return this.appSlug;
+
+    const token = this.generateAppJwt();
+    const response = await fetch('https://api.github.com/app', {
+      headers: {
+        'Authorization': `Bearer ${token}`,
+        'Accept': 'application/vnd.github.v3+json'
+      }
+    });
+    if (!response.ok) {
+      throw new ExternalServiceError('GitHub', `App 情報取得失敗: ${response.status}`);
+    }
+
+    const data = await response.json() as any;
+    this.appSlug = data.slug as string;
+    return this.appSlug;
+  }
+
   // 原子書き込み（一時ファイル経由）
   private async atomicWrite(filePath: string, content: string): Promise<void> {
     const tempPath = `${filePath}.tmp`;
@@ -180,6 +309,82 @@ export class ConfigService {
     Logger.info('Guild mapping updated', { guildId, installationId, repo });
   }
 
+  // 既存 guild_mappings の設定項目のみを更新（repo 紐付けが前提）。undefined を渡した項目は削除する
+  async updateGuildSettings(guildId: string, settings: GuildSettingsPatch): Promise<GuildMappingType> {
+    const existing = await FileUtils.getGuildMapping(guildId);
+    if (!existing) {
+      throw new ValidationError('リポジトリが未設定です。先に /config repo で紐付けてください。');
+    }
+
+    const mapping: GuildMappingType = {
+      ...existing,
+      ...settings,
+      guild_id: guildId,
+      updated_at: new Date().toISOString(),
+    } as GuildMappingType;
+    for (const [key, value] of Object.entries(settings)) {
+      if (value === undefined) {
+        delete (mapping as unknown as Record<string, unknown>)[key];
+      }
+    }
+
+    await FileUtils.saveGuildMapping(mapping);
+    Logger.info('Guild settings updated', { guildId, keys: Object.keys(settings) });
+    return mapping;
+  }
+
+  // チャンネル単位の設定を更新（エントリがなければ作成）。undefined を渡した項目は削除する
+  async updateChannelSettings(
+    guildId: string,
+    channelId: string,
+    channelName: string,
+    settings: ChannelSettingsPatch
+  ): Promise<GuildMappingType> {
+    const existing = await FileUtils.getGuildMapping(guildId);
+    if (!existing) {
+      throw new ValidationError('リポジトリが未設定です。先に /config repo で紐付けてください。');
+    }
+
+    const channels = [...(existing.channels || [])];
+    const index = channels.findIndex(ch => ch.channel_id === channelId);
+    const current: ChannelMappingType = index >= 0
+      ? channels[index]!
+      : { channel_id: channelId, channel_name: channelName };
+    const updated = { ...current, ...settings, channel_name: channelName } as ChannelMappingType;
+    for (const [key, value] of Object.entries(settings)) {
+      if (value === undefined) {
+        delete (updated as unknown as Record<string, unknown>)[key];
+      }
+    }
+
+    if (index >= 0) {
+      channels[index] = updated;
+    } else {
+      channels.push(updated);
+    }
+
+    return this.updateGuildSettings(guildId, { channels });
+  }
+
+  // チャンネル単位の設定をすべて削除（既定の設定に戻す）。設定がなかった場合は false
+  async clearChannelSettings(guildId: string, channelId: string): Promise<boolean> {
+    const existing = await FileUtils.getGuildMapping(guildId);
+    const channels = existing?.channels || [];
+    if (!channels.some(ch => ch.channel_id === channelId)) {
+      return false;
+    }
+
+    await this.updateGuildSettings(guildId, { channels: channels.filter(ch => ch.channel_id !== channelId) });
+    return true;
+  }
+
+  // installation から repo に書き込めるかを確認（チャンネル別のリポジトリ指定など、紐付け済みの installation を使う場合）
+  async verifyRepoAccess(installationId: number, repo: string): Promise<void> {
+    this.validateRepoFormat(repo);
+    const installationToken = await this.getInstallationToken(String(installationId));
+    await this.validateRepoAccess(installationToken, repo);
+  }
+
   // installations の更新（shared/types に統一）
   async upsertInstallation(installationId: string, installationInfo: any): Promise<void> {
     const installation: GitHubInstallationType = {
@@ -201,12 +406,122 @@ export class ConfigService {
     Logger.info('Installation updated', { installationId });
   }
 
+  /**
+   * インストール時のユーザー認可（OAuth）の code をユーザーのトークンに交換し、そのユーザーが installation にアクセスできるかを確かめる。
+   * リダイレクトの URL に付いてくる installation_id は書き換えられるため、紐付けの前に必ず呼ぶ。
+   */
+  async verifyInstallationOwner(code: string, installationId: string): Promise<void> {
+    const userToken = await this.exchangeUserCode(code);
+    const installationIds = await this.fetchUserInstallationIds(userToken);
+    if (!installationIds.includes(parseInt(installationId, 10))) {
+      throw new ForbiddenError('インストールした GitHub アカウントからアクセスできない installation です。', { installationId });
+    }
+  }
+
+  private async exchangeUserCode(code: string): Promise<string> {
+    const clientId = process.env.GITHUB_APP_CLIENT_ID;
+    const clientSecret = process.env.GITHUB_APP_CLIENT_SECRET;
+    if (!clientId || !clientSecret) {
+      throw new AppError('GitHub App user authorization is not configured (GITHUB_APP_CLIENT_ID, GITHUB_APP_CLIENT_SECRET)', 503);
+    }
+
+    const response = await fetch('https://github.com/login/oauth/access_token', {
+      method: 'POST',
+      headers: { 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ client_id: clientId, client_secret: clientSecret, code }),
+    });
+    if (!response.ok) {
+      throw new ExternalServiceError('GitHub', `ユーザー認可のトークン取得失敗: ${response.status}`);
+    }
+    // code が無効・期限切れの場合も 200 で error が返る
+    const data = await response.json() as { access_token?: string; error?: string };
+    if (!data.access_token) {
+      throw new ValidationError('GitHub の認可が無効か期限切れです。Discord で /config connect をもう一度実行してください。', { error: data.error });
+    }
+    return data.access_token;
+  }
+
+  // ユーザーがアクセスできる、この App の installation。ページをたどってすべて取得する
+  private async fetchUserInstallationIds(userToken: string): Promise<number[]> {
+    const ids: number[] = [];
+    for (let page = 1; ; page++) {
+      const response = await fetch(`https://api.github.com/user/installations?per_page=100&page=${page}`, {
+        headers: {
+          'Authorization': `Bearer ${userToken}`,
+          'Accept': 'application/vnd.github.v3+json'
+        }
+      });
+
+      if (!response.ok) {
+        throw new ExternalServiceError('GitHub', `installation 一覧取得失敗: ${response.status}`);
+      }
+
+      const data = await response.json() as any;
+      const pageIds: number[] = (data.installations || []).map((i: any) => i.id);
+      ids.push(...pageIds);
+      if (pageIds.length < 100 || ids.length >= (data.total_count ?? 0)) {
+        return ids;
+      }
+    }
+  }
+
+  /**
+   * /config connect から GitHub App をインストールした後、installation をサーバーに紐付ける。
+   * installation_id はリダイレクトの URL に付いてくる値なので、インストールしたユーザーの認可（code）でアクセスできることを確かめ、
+   * さらに接続リンクの発行後に作られたもの（またはこのサーバーに紐付け済みのもの）に限る。
+   * 既定のリポジトリは、現在の設定がアクセスできればそのまま、できなければ installation の最初のリポジトリにする。
+   */
+  async connectInstallation(
+    guildId: string,
+    guildName: string,
+    installationId: string,
+    code: string,
+    connectStartedAt: Date
+  ): Promise<{ repo: string; repos: string[] }> {
+    this.validateInstallationId(installationId);
+    await this.verifyInstallationOwner(code, installationId);
+    const installationInfo = await this.getInstallationInfo(installationId);
+
+    const existing = await FileUtils.getGuildMapping(guildId);
+    if (existing?.installation_id !== parseInt(installationId, 10)) {
+      const createdAt = new Date(installationInfo.created_at).getTime();
+      if (!(createdAt >= connectStartedAt.getTime() - CLOCK_SKEW_MS)) {
+        throw new ForbiddenError('接続リンクの発行より前からあるインストールは自動で紐付けできません。/config repo で紐付けてください。', { guildId, installationId });
+      }
+      await this.assertInstallationAvailable(guildId, installationId);
+    }
+
+    // インストール直後・リポジトリの追加直後なのでキャッシュは使わない
+    this.repoCache.delete(installationId);
+    const repos = [...await this.listInstallationRepos(installationId)].sort();
+    if (repos.length === 0) {
+      throw new ValidationError('インストール先にリポジトリがありません。GitHub で App がアクセスできるリポジトリを追加してから、もう一度お試しください。');
+    }
+
+    const currentRepo = existing && `${existing.default_repo.owner}/${existing.default_repo.name}`;
+    const repo = currentRepo && repos.includes(currentRepo) ? currentRepo : repos[0]!;
+
+    await this.upsertGuildMapping(guildId, guildName, installationId, repo);
+    await this.upsertInstallation(installationId, installationInfo);
+    Logger.info('Installation connected to guild', { guildId, installationId, repo });
+    return { repo, repos };
+  }
+
+  // 別のサーバーに紐付いている installation は使わせない（そのサーバーのリポジトリに書き込めてしまう）
+  async assertInstallationAvailable(guildId: string, installationId: string): Promise<void> {
+    const linkedGuilds = await FileUtils.findGuildsByInstallation(parseInt(installationId, 10));
+    if (linkedGuilds.some(mapping => mapping.guild_id !== guildId)) {
+      throw new ForbiddenError('このインストールは既に別のサーバーに紐付けられています。', { guildId, installationId });
+    }
+  }
+
   // メインの設定処理
   async configureGuild(guildId: string, guildName: string, repo: string, installationId: string): Promise<void> {
     try {
-      // 1. 入力値の形式検証
+      // 1. 入力値の形式検証と、別のサーバーの installation でないことの確認
       this.validateRepoFormat(repo);
       this.validateInstallationId(installationId);
+      await this.assertInstallationAvailable(guildId, installationId);
 
       // 2. App認証 → installation token発行
       const installationToken = await this.getInstallationToken(installationId);
@@ -0,0 +1,85 @@
+import { FileUtils } from '../../shared/file-utils';
+import { SecretStore, SECRET_KEYS, maskKey } from '../../shared/secret-store';
+import { GuildMapping, OperationLog } from '../../shared/types';
+import { AuthContext } from './auth.service';
+
+// 操作ログの集計期間（日）と、詳細画面に出す件数
+export const STATS_DAYS = 7;
+const RECENT_LOG_LIMIT = 20;
+
+export interface OperationCounts {
+  total: number;
+  failed: number;
+}
+
+export interface OperationStats extends OperationCounts {
+  byType: Partial<Record<OperationLog['operation_type'], OperationCounts>>;
+}
+
+export interface GuildOverview {
+  guildId: string;
+  mapping: GuildMapping | null;
+  // マスク済みの API キー（未設定なら null）
+  openaiKey: string | null;
+  stats: OperationStats;
+  recentLogs: OperationLog[];
+}
+
+/**
+ * 管理ダッシュボードに表示するギルドごとの設定と、直近の操作ログの集計。
+ */
+export class DashboardService {
+  /**
+   * 呼び出し元が管理できるギルドの一覧。ギルド指定のない管理トークンでは紐付け済みのすべてのギルド。
+   */
+  async listGuilds(auth: AuthContext): Promise<GuildOverview[]> {
+    const guildIds = auth.guildIds === 'all'
+      ? (await FileUtils.listGuildMappings()).map(mapping => mapping.guild_id)
+      : auth.guildIds;
+    const logs = await this.readRecentLogs();
+    return Promise.all(guildIds.map(guildId => this.buildOverview(guildId, logs)));
+  }
+
+  async getGuild(guildId: string): Promise<GuildOverview> {
+    return this.buildOverview(guildId, await this.readRecentLogs());
+  }
+
+  static summarize(logs: OperationLog[]): OperationStats {
+    const stats: OperationStats = { total: 0, failed: 0, byType: {} };
+    for (const log of logs) {
+      const counts = stats.byType[log.operation_type] ??= { total: 0, failed: 0 };
+      for (const target of [stats, counts]) {
+        target.total++;
+        if (log.status === 'error') target.failed++;
+      }
+    }
+    return stats;
+  }
+
+  private async buildOverview(guildId: string, logs: OperationLog[]): Promise<GuildOverview> {
+    const mapping = await FileUtils.getGuildMapping(guildId);
+    const hasKey = await SecretStore.has(guildId, SECRET_KEYS.openai);
+    // llm_completion は操作ごとの LLM 使用量の記録（UsageTracker）で、操作そのものではないので数えない
+    const guildLogs = logs.filter(log => log.guild_id === guildId && log.operation_type !== 'llm_completion');
+
+    return {
+      guildId,
+      mapping,
+      openaiKey: hasKey ? maskKey((await SecretStore.get(guildId, SECRET_KEYS.openai)) || '') : null,
+      stats: DashboardService.summarize(guildLogs),
+      recentLogs: guildLogs
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+        .slice(0, RECENT_LOG_LIMIT),
+    };
+  }
+
+  // 今日（UTC）を含む直近 STATS_DAYS 日分
+  private async readRecentLogs(now: Date = new Date()): Promise<OperationLog[]> {
+    const logs: OperationLog[] = [];
+    for (let offset = 0; offset < STATS_DAYS; offset++) {
+      const date = new Date(now.getTime() - offset * 24 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+      logs.push(...await FileUtils.readOperationLogs(date));
+    }
+    return logs;
+  }
+}
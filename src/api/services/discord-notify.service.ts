@@ -0,0 +1,43 @@
+import { REST } from '@discordjs/rest';
+import { Routes, RESTPostAPIChannelMessageResult } from 'discord-api-types/v10';
+import { Logger } from '../../shared/logger';
+import { ExternalServiceError } from '../../shared/error-handler';
+
+export interface DiscordNotifyOptions {
+  replyTo?: string;
+}
+
+/**
+ * Gateway 接続を持たない API サーバー側から Discord へ投稿するための REST クライアント。
+ */
+export class DiscordNotifyService {
+  private rest: REST | null;
+
+  constructor() {
+    const token = process.env.DISCORD_BOT_TOKEN;
+    this.rest = token ? new REST({ version: '10' }).setToken(token) : null;
+  }
+
+  async sendMessage(channelId: string, content: string, options: DiscordNotifyOptions = {}): Promise<string> {
+    if (!this.rest) {
+      throw new ExternalServiceError('Discord', 'DISCORD_BOT_TOKEN is not configured');
+    }
+
+    try {
+      const message = await this.rest.post(Routes.channelMessages(channelId), {
+        body: {
+          content,
+          allowed_mentions: { parse: [] },
+          ...(options.replyTo
+            ? { message_reference: { message_id: options.replyTo, fail_if_not_exists: false } }
+            : {}),
+        },
+      }) as RESTPostAPIChannelMessageResult;
+
+      return message.id;
+    } catch (error) {
+      Logger.error('Failed to send Discord message', error as Error, { channelId });
+      throw new ExternalServiceError('Discord', `Failed to send message: ${(error as Error).message}`);
+    }
+  }
+}
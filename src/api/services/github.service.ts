@@ -1,28 +1,143 @@
 import { Octokit } from '@octokit/rest';
 import { createAppAuth } from '@octokit/auth-app';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
 import { Logger } from '../../shared/logger';
-import { ExternalServiceError, NotFoundError, UnauthorizedError } from '../../shared/error-handler';
+import {
+  ExternalServiceError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  UsageLimitError
+} from '../../shared/error-handler';
 import { Metrics } from '../../shared/metrics';
 import { FileUtils } from '../../shared/file-utils';
-import { ProcessedFile, GitHubCreateIssueRequest, GitHubCreateGistRequest, OperationLog } from '../../shared/types';
-import { OpenAIService } from './openai.service';
+import { Resilience } from '../../shared/resilience';
+import { IdempotencyStore } from '../../shared/idempotency-store';
+import {
+  ProcessedFile,
+  GitHubCreateIssueRequest,
+  GitHubCreateGistRequest,
+  GitHubCreateFileRequest,
+  GitHubCreatePullRequestRequest,
+  OperationLog,
+  GuildMapping,
+  GitHubInstallation,
+  IssueLink,
+  SaveMode
+} from '../../shared/types';
+import { OpenAIService, SummaryProgressCallback, SummaryResult } from './openai.service';
+import { DiscordNotifyService } from './discord-notify.service';
+
+const DEFAULT_ISSUE_LABELS = ['discord-upload', 'auto-generated'];
+const DEFAULT_TITLE_TEMPLATE = '{ai_title}';
+const MAX_TITLE_LENGTH = 80;
+const MAX_SUGGESTED_LABELS = 3;
+const DEFAULT_COMMIT_PATH_PATTERN = 'Writing/{yyyyMMddHHmm}.md';
+
+export interface GitHubCommitResult {
+  kind: 'commit';
+  url: string;
+  path: string;
+  branch: string;
+  sha: string;
+}
 
 export interface GitHubIssueResult {
+  kind: 'issue';
   url: string;
   number: number;
   title: string;
+  repo: { owner: string; name: string };
+  commit?: GitHubCommitResult;
 }
 
 export interface GitHubGistResult {
+  kind: 'gist';
   url: string;
   id: string;
   description: string;
+  commit?: GitHubCommitResult;
+}
+
+export interface GitHubPullRequestResult {
+  kind: 'pull_request';
+  url: string;
+  number: number;
+  title: string;
+  repo: { owner: string; name: string };
+  branch: string;
+  commit: GitHubCommitResult;
+}
+
+export type GitHubUploadResult = GitHubIssueResult | GitHubGistResult | GitHubCommitResult | GitHubPullRequestResult;
+
+export interface UploadOptions {
+  skipSummary?: boolean;
+  forceGist?: boolean;
+  // ユーザーが入力したタイトル・ラベル（モーダル入力など）。タイトルはテンプレートより優先される
+  title?: string;
+  labels?: string[];
+  // 同じ Discord メッセージ・操作から重複して作成しないためのキー。作成済みなら前回の結果を返す
+  idempotencyKey?: string;
+}
+
+const RESULT_LABELS: Record<GitHubUploadResult['kind'], string> = {
+  issue: 'Issue',
+  gist: 'Gist',
+  commit: 'Commit',
+  pull_request: 'Pull Request',
+};
+
+// これを超えるファイルは Issue ではなく Gist に保存する
+const LARGE_FILE_THRESHOLD = 512 * 1024;
+// GitHub が受け付ける Issue 本文の最大文字数。超える場合は本文を Gist（コミット済みならそのファイル）へのリンクにする
+const MAX_ISSUE_BODY_LENGTH = 65536;
+
+// idempotencyKey ごとの作成結果（Discord のイベント再送やジョブの再実行で二重に作成しないため）
+const processedUploads = new IdempotencyStore<GitHubUploadResult>('processed-uploads');
+
+export interface PreparedUpload {
+  guildId: string;
+  channelId: string;
+  userId: string;
+  file: ProcessedFile;
+  options: UploadOptions;
+  summary: SummaryResult | null;
+}
+
+/**
+ * 書き込みの途中まで終わった手順（ブランチ・コミット・本文を載せた Gist）。
+ * ジョブのリトライで作り直さないよう、呼び出し側が手順ごとに保存する。
+ */
+export interface UploadSteps {
+  branch?: { name: string; base: string };
+  commit?: GitHubCommitResult;
+  contentUrl?: string;
+}
+
+export interface UploadStepTracker {
+  steps: UploadSteps;
+  // 手順が1つ終わるたびに呼ばれる
+  save: () => Promise<void>;
+}
+
+export interface UploadPreview {
+  kind: GitHubUploadResult['kind'];
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+export function getUploadResultLabel(result: GitHubUploadResult): string {
+  return RESULT_LABELS[result.kind];
 }
 
 export class GitHubService {
   private app: Octokit;
   private installationClients: Map<number, Octokit> = new Map();
   private openaiService: OpenAIService;
+  private discordNotifyService: DiscordNotifyService;
 
   constructor() {
     const appId = process.env.GITHUB_APP_ID;
@@ -41,6 +156,7 @@ export class GitHubService {
     });
 
     this.openaiService = new OpenAIService();
+    this.discordNotifyService = new DiscordNotifyService();
   }
 
   async processFileUpload(
@@ -48,17 +164,68 @@ export class GitHubService {
     channelId: string,
     userId: string,
     file: ProcessedFile,
-    skipSummary: boolean = false
-  ): Promise<GitHubIssueResult | GitHubGistResult> {
-    const startTime = Date.now();
-    
+    options: UploadOptions = {},
+    onSummaryProgress?: SummaryProgressCallback
+  ): Promise<GitHubUploadResult> {
+    const previous = await this.findProcessedUpload(options.idempotencyKey);
+    if (previous) {
+      Logger.info('Upload already processed; returning previous result', {
+        guildId,
+        idempotencyKey: options.idempotencyKey,
+        url: previous.url
+      });
+      return previous;
+    }
+
+    const prepared = await this.prepareUpload(guildId, channelId, userId, file, options, onSummaryProgress);
+    return this.publishUpload(prepared);
+  }
+
+  /**
+   * idempotencyKey で作成済みのアップロードがあればその結果を返す。
+   */
+  async findProcessedUpload(idempotencyKey: string | undefined): Promise<GitHubUploadResult | null> {
+    return idempotencyKey ? processedUploads.get(idempotencyKey) : null;
+  }
+
+  /**
+   * アップロードをキューに積む前に idempotencyKey を受付済みにする。作成済み・受付済み（処理待ち・処理中）なら false を返す。
+   */
+  async claimUpload(idempotencyKey: string): Promise<boolean> {
+    return processedUploads.claim(idempotencyKey);
+  }
+
+  /**
+   * claimUpload の受付を取り消す。受付後にキューに積めなかった・保存に失敗した場合に、再送や再操作でやり直せるようにする。
+   */
+  async releaseUpload(idempotencyKey: string | undefined): Promise<void> {
+    if (idempotencyKey) {
+      await processedUploads.release(idempotencyKey);
+    }
+  }
+
+  /**
+   * 要約など GitHub への書き込み前の処理だけを行う。結果はプレビュー（公開前の確認）に使える。
+   * 長いファイルは分割して要約され、その進捗が onSummaryProgress に通知される。
+   */
+  async prepareUpload(
+    guildId: string,
+    channelId: string,
+    userId: string,
+    file: ProcessedFile,
+    options: UploadOptions = {},
+    onSummaryProgress?: SummaryProgressCallback
+  ): Promise<PreparedUpload> {
+    const { skipSummary = false, forceGist = false } = options;
+
     try {
       Logger.info(`Processing file upload`, {
         guildId,
         channelId,
         fileName: file.original_name,
         fileSize: file.size,
-        skipSummary
+        skipSummary,
+        forceGist
       });
 
       const guildMapping = await FileUtils.getGuildMapping(guildId);
@@ -67,26 +234,130 @@ export class GitHubService {
           guildId
         });
       }
+      // 保存できないことが分かっている場合は要約（LLM の呼び出し）の前に止める
+      await this.assertUploadAllowed(guildMapping, channelId, file, options);
 
-      const targetRepo = this.getTargetRepo(guildMapping, channelId);
-      const installationClient = await this.getInstallationClient(guildMapping.installation_id);
+      const channel = guildMapping.channels?.find(ch => ch.channel_id === channelId);
 
-      // 要約実施可否: 明示スキップ or 環境変数 SUMMARY_MODE=workflow でスキップ
+      // 要約実施可否: 明示スキップ、チャンネルで要約オフ、または環境変数 SUMMARY_MODE=workflow でスキップ
       const envSummaryMode = (process.env.SUMMARY_MODE || 'bot').toLowerCase();
       const skipByEnv = envSummaryMode === 'workflow';
-      const shouldSkipSummary = skipSummary || skipByEnv;
+      const shouldSkipSummary = skipSummary || skipByEnv || channel?.summarize === false;
 
       // insertコマンドの場合やworkflowモードの場合は要約をスキップ
-      const summary = shouldSkipSummary ? '' : await this.openaiService.summarizeFile(file, {}, guildId);
+      const summary = shouldSkipSummary
+        ? null
+        : await this.summarizeIfAvailable(guildId, userId, file, onSummaryProgress);
+
+      // チャンネルに設定されたラベルは、ユーザーが入力したラベルと合わせて付ける
+      const labels = [...(channel?.labels || []), ...(options.labels || [])];
+      const uploadOptions: UploadOptions = labels.length > 0 ? { ...options, labels } : options;
+
+      return { guildId, channelId, userId, file, options: uploadOptions, summary };
+
+    } catch (error) {
+      Logger.error(`File processing failed`, error as Error, {
+        guildId,
+        fileName: file.original_name
+      });
+
+      await this.logError(guildId, channelId, userId, file, error as Error);
+
+      throw error;
+    }
+  }
+
+  /**
+   * LLM の利用上限に達した・LLM の呼び出しに失敗した（circuit breaker の open を含む）場合は要約なしで続行し、タイトルは日時にする。
+   */
+  private async summarizeIfAvailable(
+    guildId: string,
+    userId: string,
+    file: ProcessedFile,
+    onSummaryProgress?: SummaryProgressCallback
+  ): Promise<SummaryResult | null> {
+    try {
+      return await this.openaiService.summarizeFile(file, onSummaryProgress ? { onProgress: onSummaryProgress } : {}, guildId, userId);
+    } catch (error) {
+      if (error instanceof UsageLimitError || error instanceof ExternalServiceError) {
+        Logger.warn('LLM unavailable; creating without summary', {
+          guildId,
+          userId,
+          fileName: file.original_name,
+          reason: error.message
+        });
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * prepareUpload の結果を保存モードに従って GitHub に書き込む。
+   * idempotencyKey が作成済みなら書き込まずに前回の結果を返す。
+   * tracker を渡すと、tracker.steps に記録済みの手順は飛ばして続きから書き込む。
+   */
+  async publishUpload(
+    prepared: PreparedUpload,
+    tracker: UploadStepTracker = { steps: {}, save: async () => undefined }
+  ): Promise<GitHubUploadResult> {
+    const key = prepared.options.idempotencyKey;
+    if (!key) {
+      return this.createUpload(prepared, tracker);
+    }
+
+    const { value, duplicate } = await processedUploads.run(key, () => this.createUpload(prepared, tracker));
+    if (duplicate) {
+      Logger.info('Upload already processed; returning previous result', {
+        guildId: prepared.guildId,
+        idempotencyKey: key,
+        url: value.url
+      });
+    }
+    return value;
+  }
+
+  private async createUpload(prepared: PreparedUpload, tracker: UploadStepTracker): Promise<GitHubUploadResult> {
+    const startTime = Date.now();
+    const { guildId, channelId, userId, file, options, summary } = prepared;
+    const forceGist = options.forceGist || false;
+
+    try {
+      const guildMapping = await FileUtils.getGuildMapping(guildId);
+      if (!guildMapping) {
+        throw new NotFoundError('GitHub App がインストールされていません', {
+          guildId
+        });
+      }
+
+      await this.assertUploadAllowed(guildMapping, channelId, file, options);
+
+      const targetRepo = this.getTargetRepo(guildMapping, channelId);
+      const installationClient = await this.getInstallationClient(guildMapping.installation_id);
 
-      const isLargeFile = file.size > 512 * 1024; // 512KB threshold
+      const isLargeFile = file.size > LARGE_FILE_THRESHOLD;
+      // Gist 指定時は保存モードに関わらず Gist のみ作成する
+      const saveMode = forceGist ? 'issue' : this.getSaveMode(guildMapping, channelId);
+
+      // commit / both モードでは先にリポジトリへファイルを保存する（pr モードは専用ブランチに保存）
+      const commit = saveMode === 'commit' || saveMode === 'both'
+        ? await this.runStep(tracker, 'commit', () => this.createCommit(installationClient, targetRepo, file, summary, guildMapping))
+        : undefined;
       
-      let result: GitHubIssueResult | GitHubGistResult;
+      let result: GitHubUploadResult;
       
-      if (isLargeFile) {
-        result = await this.createGist(installationClient, file, summary);
+      if (saveMode === 'pr') {
+        result = await this.createPullRequest(installationClient, targetRepo, file, summary, guildMapping, tracker, options);
+      } else if (commit && saveMode === 'commit') {
+        result = commit;
+      } else if (isLargeFile || forceGist) {
+        result = await this.createGist(installationClient, file, summary?.summary || '', guildMapping);
       } else {
-        result = await this.createIssue(installationClient, targetRepo, file, summary);
+        result = await this.createIssue(installationClient, targetRepo, file, summary, guildMapping, tracker, commit, options);
+      }
+
+      if (commit && (result.kind === 'issue' || result.kind === 'gist')) {
+        result.commit = commit;
       }
 
       await this.logSuccess(guildId, channelId, userId, file, result, summary);
@@ -95,8 +366,9 @@ export class GitHubService {
       Logger.info(`File processing completed`, {
         guildId,
         fileName: file.original_name,
-        resultType: isLargeFile ? 'gist' : 'issue',
-        summaryMode: shouldSkipSummary ? 'workflow(skip)' : 'bot',
+        resultType: result.kind,
+        saveMode,
+        summaryMode: summary ? 'bot' : 'skip',
         duration: `${duration}s`
       });
 
@@ -119,6 +391,121 @@ export class GitHubService {
     }
   }
 
+  /**
+   * tracker に記録済みの手順はその結果を返し、未実行なら実行して記録する。
+   */
+  private async runStep<K extends keyof UploadSteps>(
+    tracker: UploadStepTracker,
+    step: K,
+    run: () => Promise<NonNullable<UploadSteps[K]>>
+  ): Promise<NonNullable<UploadSteps[K]>> {
+    const done = tracker.steps[step];
+    if (done !== undefined) {
+      Logger.info('Skipping completed upload step', { step });
+      return done as NonNullable<UploadSteps[K]>;
+    }
+
+    const value = await run();
+    tracker.steps[step] = value;
+    await tracker.save();
+    return value;
+  }
+
+  /**
+   * publishUpload で作成される内容（タイトル・本文・ラベル・作成先）を組み立てる。
+   */
+  async buildPreview(prepared: PreparedUpload): Promise<UploadPreview> {
+    const { guildId, channelId, file, options, summary } = prepared;
+    const guildMapping = await FileUtils.getGuildMapping(guildId);
+    if (!guildMapping) {
+      throw new NotFoundError('GitHub App がインストールされていません', { guildId });
+    }
+
+    const saveMode = options.forceGist ? 'issue' : this.getSaveMode(guildMapping, channelId);
+    let kind: GitHubUploadResult['kind'];
+    if (saveMode === 'pr') {
+      kind = 'pull_request';
+    } else if (saveMode === 'commit') {
+      kind = 'commit';
+    } else if (file.size > LARGE_FILE_THRESHOLD || options.forceGist) {
+      kind = 'gist';
+    } else {
+      kind = 'issue';
+    }
+
+    return {
+      kind,
+      title: this.buildIssueTitle(file, summary, guildMapping.issue_title_template, options.title),
+      body: this.buildIssueBody(file, summary?.summary || ''),
+      labels: this.buildIssueLabels(summary, options.labels),
+    };
+  }
+
+  /**
+   * Issue / PR を告知した Discord メッセージとの紐付けを保存する。
+   * GitHub 側の更新を Discord に返す（webhooks）ためと、返信からコメントを付けるために使う。
+   */
+  async recordDiscordLink(
+    result: GitHubUploadResult,
+    discord: { guildId: string; channelId: string; messageId: string; sourceMessageId?: string }
+  ): Promise<void> {
+    if (result.kind !== 'issue' && result.kind !== 'pull_request') return;
+
+    try {
+      await FileUtils.saveIssueLink({
+        owner: result.repo.owner,
+        repo: result.repo.name,
+        issue_number: result.number,
+        issue_url: result.url,
+        guild_id: discord.guildId,
+        channel_id: discord.channelId,
+        message_id: discord.messageId,
+        ...(discord.sourceMessageId ? { source_message_id: discord.sourceMessageId } : {}),
+        created_at: new Date().toISOString(),
+      });
+    } catch (error) {
+      // 紐付けの保存失敗で Issue 作成自体を失敗扱いにはしない
+      Logger.error('Failed to save issue link', error as Error, {
+        issueUrl: result.url,
+        messageId: discord.messageId
+      });
+    }
+  }
+
+  /**
+   * 紐付け済み Issue にコメントを追加する（Discord の返信から）。
+   */
+  async addIssueComment(link: IssueLink, body: string): Promise<{ url: string }> {
+    const guildMapping = await FileUtils.getGuildMapping(link.guild_id);
+    if (!guildMapping) {
+      throw new NotFoundError('GitHub App がインストールされていません', { guildId: link.guild_id });
+    }
+    await this.assertInstallationActive(guildMapping.installation_id);
+
+    const client = await this.getInstallationClient(guildMapping.installation_id);
+
+    try {
+      const response = await client.rest.issues.createComment({
+        owner: link.owner,
+        repo: link.repo,
+        issue_number: link.issue_number,
+        body,
+      });
+
+      Metrics.recordGitHubApiCall('issues.createComment', 'success');
+      return { url: response.data.html_url };
+
+    } catch (error) {
+      Metrics.recordGitHubApiCall('issues.createComment', 'error');
+
+      Logger.error(`Failed to create issue comment`, error as Error, {
+        issueUrl: link.issue_url
+      });
+
+      throw new ExternalServiceError('GitHub', `Failed to create comment: ${(error as Error).message}`);
+    }
+  }
+
   private async getInstallationClient(installationId: number): Promise<Octokit> {
     if (this.installationClients.has(installationId)) {
       return this.installationClients.get(installationId)!;
@@ -160,43 +547,308 @@ export class GitHubService {
     }
   }
 
-  private getTargetRepo(guildMapping: any, channelId: string): { owner: string; name: string } {
+  /**
+   * インストールが一時停止中、または保存先のリポジトリが App のアクセス対象から外されている場合は保存を拒否する。
+   * リポジトリを使わない保存（Gist のみ）は、リポジトリの状態に関わらず受け付ける。
+   */
+  private async assertUploadAllowed(
+    guildMapping: GuildMapping,
+    channelId: string,
+    file: ProcessedFile,
+    options: UploadOptions
+  ): Promise<void> {
+    await this.assertInstallationActive(guildMapping.installation_id);
+
+    const saveMode = options.forceGist ? 'issue' : this.getSaveMode(guildMapping, channelId);
+    const gistOnly = saveMode === 'issue' && (options.forceGist || file.size > LARGE_FILE_THRESHOLD);
+    if (gistOnly) return;
+
+    const repo = this.getTargetRepo(guildMapping, channelId);
+    const fullName = `${repo.owner}/${repo.name}`;
+    const removed = guildMapping.removed_repos?.find(r => r.full_name.toLowerCase() === fullName.toLowerCase());
+    if (removed) {
+      throw new ForbiddenError(
+        `リポジトリ ${fullName} は GitHub App のアクセス対象から外されているため保存できません。` +
+        'App の設定でリポジトリを再追加するか、/config repo で保存先を変更してください。',
+        { guildId: guildMapping.guild_id, repo: fullName, removedAt: removed.removed_at }
+      );
+    }
+  }
+
+  private async assertInstallationActive(installationId: number): Promise<void> {
+    const installation = await FileUtils.getInstallation(installationId);
+    if (installation?.suspended_at) {
+      throw new ForbiddenError(
+        'GitHub App が一時停止（suspend）されているため保存できません。' +
+        'GitHub の Settings → Applications（Organization の場合は組織の設定）で App を再開してください。',
+        { installationId, suspendedAt: installation.suspended_at }
+      );
+    }
+  }
+
+  private getTargetRepo(guildMapping: GuildMapping, channelId: string): { owner: string; name: string } {
     const channelOverride = guildMapping.channels?.find(
-      (ch: any) => ch.channel_id === channelId && ch.repo_override
+      (ch) => ch.channel_id === channelId && ch.repo_override
     );
     
     return channelOverride?.repo_override || guildMapping.default_repo;
   }
 
+  private getSaveMode(guildMapping: GuildMapping, channelId: string): SaveMode {
+    const channel = guildMapping.channels?.find(ch => ch.channel_id === channelId);
+    return channel?.save_mode || guildMapping.save_mode || 'issue';
+  }
+
+  private async createCommit(
+    client: Octokit,
+    repo: { owner: string; name: string },
+    file: ProcessedFile,
+    summary: SummaryResult | null,
+    guildMapping: GuildMapping,
+    targetBranch?: string
+  ): Promise<GitHubCommitResult> {
+    try {
+      const branch = targetBranch || guildMapping.commit_branch || await this.getDefaultBranch(client, repo);
+      const pattern = guildMapping.commit_path_pattern || DEFAULT_COMMIT_PATH_PATTERN;
+      const filePath = await this.resolveAvailablePath(
+        client,
+        repo,
+        branch,
+        this.buildCommitPath(pattern, file, new Date())
+      );
+      const content = this.buildCommitContent(file, summary, guildMapping.commit_front_matter !== false);
+
+      const request: GitHubCreateFileRequest = {
+        path: filePath,
+        message: `Add ${filePath} from Discord`,
+        content: Buffer.from(content, 'utf-8').toString('base64'),
+        branch,
+      };
+
+      const response = await Resilience.execute('github', guildMapping.installation_id, () => client.rest.repos.createOrUpdateFileContents({
+        owner: repo.owner,
+        repo: repo.name,
+        ...request,
+      }));
+
+      Metrics.recordGitHubApiCall('repos.createOrUpdateFileContents', 'success');
+
+      return {
+        kind: 'commit',
+        url: response.data.content?.html_url || `https://github.com/${repo.owner}/${repo.name}/blob/${branch}/${filePath}`,
+        path: filePath,
+        branch,
+        sha: response.data.commit.sha || '',
+      };
+
+    } catch (error) {
+      Metrics.recordGitHubApiCall('repos.createOrUpdateFileContents', 'error');
+
+      Logger.error(`Failed to commit file to GitHub`, error as Error, {
+        repo: `${repo.owner}/${repo.name}`,
+        fileName: file.original_name
+      });
+
+      throw new ExternalServiceError('GitHub', `Failed to commit file: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * アップロードごとにブランチを切ってコミットし、要約を本文にした Pull Request を作成する。
+   * ベースは commit_branch（未設定なら既定ブランチ）。
+   */
+  private async createPullRequest(
+    client: Octokit,
+    repo: { owner: string; name: string },
+    file: ProcessedFile,
+    summary: SummaryResult | null,
+    guildMapping: GuildMapping,
+    tracker: UploadStepTracker,
+    options: UploadOptions = {}
+  ): Promise<GitHubPullRequestResult> {
+    const { name: branch, base } = await this.runStep(tracker, 'branch', () => this.createBranch(client, repo, guildMapping));
+    const commit = await this.runStep(tracker, 'commit', () => this.createCommit(client, repo, file, summary, guildMapping, branch));
+
+    try {
+      const request: GitHubCreatePullRequestRequest = {
+        title: this.buildIssueTitle(file, summary, guildMapping.issue_title_template, options.title),
+        body: this.buildPullRequestBody(file, summary?.summary || '', commit),
+        head: branch,
+        base,
+      };
+
+      const response = await Resilience.execute('github', guildMapping.installation_id, () => client.rest.pulls.create({
+        owner: repo.owner,
+        repo: repo.name,
+        ...request,
+      }));
+
+      Metrics.recordGitHubApiCall('pulls.create', 'success');
+
+      return {
+        kind: 'pull_request',
+        url: response.data.html_url,
+        number: response.data.number,
+        title: response.data.title,
+        repo,
+        branch,
+        commit,
+      };
+
+    } catch (error) {
+      Metrics.recordGitHubApiCall('pulls.create', 'error');
+
+      Logger.error(`Failed to create GitHub pull request`, error as Error, {
+        repo: `${repo.owner}/${repo.name}`,
+        branch,
+        fileName: file.original_name
+      });
+
+      throw new ExternalServiceError('GitHub', `Failed to create pull request: ${(error as Error).message}`);
+    }
+  }
+
+  private async createBranch(
+    client: Octokit,
+    repo: { owner: string; name: string },
+    guildMapping: GuildMapping
+  ): Promise<{ name: string; base: string }> {
+    const base = guildMapping.commit_branch || await this.getDefaultBranch(client, repo);
+    const branch = `discord/${this.formatTimestamp(new Date())}-${Math.random().toString(36).substring(2, 8)}`;
+
+    try {
+      const baseRef = await Resilience.execute('github', guildMapping.installation_id, () =>
+        client.rest.git.getRef({ owner: repo.owner, repo: repo.name, ref: `heads/${base}` })
+      );
+      await Resilience.execute('github', guildMapping.installation_id, () => client.rest.git.createRef({
+        owner: repo.owner,
+        repo: repo.name,
+        ref: `refs/heads/${branch}`,
+        sha: baseRef.data.object.sha,
+      }));
+      Metrics.recordGitHubApiCall('git.createRef', 'success');
+      return { name: branch, base };
+    } catch (error) {
+      Metrics.recordGitHubApiCall('git.createRef', 'error');
+
+      Logger.error(`Failed to create branch for pull request`, error as Error, {
+        repo: `${repo.owner}/${repo.name}`,
+        base,
+        branch
+      });
+
+      throw new ExternalServiceError('GitHub', `Failed to create branch: ${(error as Error).message}`);
+    }
+  }
+
+  private async getDefaultBranch(client: Octokit, repo: { owner: string; name: string }): Promise<string> {
+    const response = await client.rest.repos.get({ owner: repo.owner, repo: repo.name });
+    return response.data.default_branch;
+  }
+
+  /**
+   * 同名ファイルが既にある場合は -2, -3 ... を拡張子の前に付けて空いているパスを探す。
+   */
+  private async resolveAvailablePath(
+    client: Octokit,
+    repo: { owner: string; name: string },
+    branch: string,
+    filePath: string
+  ): Promise<string> {
+    const ext = path.posix.extname(filePath);
+    const base = filePath.slice(0, filePath.length - ext.length);
+
+    for (let attempt = 1; attempt <= 10; attempt++) {
+      const candidate = attempt === 1 ? filePath : `${base}-${attempt}${ext}`;
+      try {
+        await client.rest.repos.getContent({ owner: repo.owner, repo: repo.name, path: candidate, ref: branch });
+      } catch (error) {
+        if ((error as any).status === 404) {
+          return candidate;
+        }
+        throw error;
+      }
+    }
+
+    throw new ExternalServiceError('GitHub', `No free file path for ${filePath}`);
+  }
+
+  /**
+   * 使用可能なプレースホルダ: {yyyyMMddHHmm} {yyyy} {MM} {dd} {HH} {mm} {file_name}
+   */
+  private buildCommitPath(pattern: string, file: ProcessedFile, now: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    const baseName = path.basename(file.original_name, path.extname(file.original_name));
+    const vars: Record<string, string> = {
+      yyyyMMddHHmm: this.formatTimestamp(now),
+      yyyy: now.getFullYear().toString(),
+      MM: pad(now.getMonth() + 1),
+      dd: pad(now.getDate()),
+      HH: pad(now.getHours()),
+      mm: pad(now.getMinutes()),
+      file_name: baseName.replace(/[^\w.-]+/g, '-'),
+    };
+
+    return pattern
+      .replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match)
+      .replace(/^\/+/, '');
+  }
+
+  private buildCommitContent(file: ProcessedFile, summary: SummaryResult | null, withFrontMatter: boolean): string {
+    if (!withFrontMatter) {
+      return file.content;
+    }
+
+    const frontMatter: Record<string, unknown> = {
+      source: 'discord',
+      file_name: file.original_name,
+      created_at: new Date().toISOString(),
+    };
+    if (summary?.title) frontMatter.title = summary.title;
+    if (summary?.labels.length) frontMatter.tags = summary.labels;
+    if (summary?.summary) frontMatter.summary = summary.summary;
+
+    return `---\n${yaml.dump(frontMatter, { lineWidth: -1 })}---\n\n${file.content}`;
+  }
+
   private async createIssue(
     client: Octokit,
     repo: { owner: string; name: string },
     file: ProcessedFile,
-    summary: string
+    summary: SummaryResult | null,
+    guildMapping: GuildMapping,
+    tracker: UploadStepTracker,
+    commit?: GitHubCommitResult,
+    options: UploadOptions = {}
   ): Promise<GitHubIssueResult> {
+    let body = this.buildIssueBody(file, summary?.summary || '', commit);
+    if (body.length > MAX_ISSUE_BODY_LENGTH) {
+      const contentUrl = commit?.url
+        || await this.runStep(tracker, 'contentUrl', async () => (await this.createGist(client, file, summary?.summary || '', guildMapping)).url);
+      body = this.buildIssueBody(file, summary?.summary || '', commit, contentUrl);
+    }
+
     try {
-      // タイトルを現在時刻のYYYYMMDDHHmm形式に
-      const now = new Date();
-      const pad = (n: number) => n.toString().padStart(2, '0');
-      const title = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}${pad(now.getHours())}${pad(now.getMinutes())}`;
       const request: GitHubCreateIssueRequest = {
-        title,
-        body: this.buildIssueBody(file, summary),
-        labels: ['discord-upload', 'auto-generated'],
+        title: this.buildIssueTitle(file, summary, guildMapping.issue_title_template, options.title),
+        body,
+        labels: this.buildIssueLabels(summary, options.labels),
       };
 
-      const response = await client.rest.issues.create({
+      const response = await Resilience.execute('github', guildMapping.installation_id, () => client.rest.issues.create({
         owner: repo.owner,
         repo: repo.name,
         ...request,
-      });
+      }));
 
       Metrics.recordGitHubApiCall('issues.create', 'success');
 
       return {
+        kind: 'issue',
         url: response.data.html_url,
         number: response.data.number,
         title: response.data.title,
+        repo,
       };
 
     } catch (error) {
@@ -214,7 +866,8 @@ export class GitHubService {
   private async createGist(
     client: Octokit,
     file: ProcessedFile,
-    summary: string
+    summary: string,
+    guildMapping: GuildMapping
   ): Promise<GitHubGistResult> {
     try {
       const request: GitHubCreateGistRequest = {
@@ -230,15 +883,16 @@ export class GitHubService {
         }
       };
 
-      const response = await client.rest.gists.create({
+      const response = await Resilience.execute('github', guildMapping.installation_id, () => client.rest.gists.create({
         description: request.description,
         public: request.public,
         files: request.files
-      });
+      }));
 
       Metrics.recordGitHubApiCall('gists.create', 'success');
 
       return {
+        kind: 'gist',
         url: response.data.html_url!,
         id: response.data.id!,
         description: response.data.description || '',
@@ -255,27 +909,102 @@ export class GitHubService {
     }
   }
 
-  private buildIssueBody(file: ProcessedFile, summary: string): string {
+  /**
+   * AI タイトルがあればテンプレートに埋め込み、なければ YYYYMMDDHHmm にフォールバックする。
+   * 使用可能なプレースホルダ: {date} {ai_title} {file_name}
+   * ユーザーがタイトルを指定した場合はテンプレートを使わずそのまま使う。
+   */
+  private buildIssueTitle(
+    file: ProcessedFile,
+    summary: SummaryResult | null,
+    titleTemplate?: string,
+    customTitle?: string
+  ): string {
+    const date = this.formatTimestamp(new Date());
+    const aiTitle = summary?.title?.trim();
+    let title = customTitle?.replace(/\s+/g, ' ').trim();
+
+    if (!title) {
+      if (!aiTitle) {
+        return date;
+      }
+      const template = titleTemplate || process.env.ISSUE_TITLE_TEMPLATE || DEFAULT_TITLE_TEMPLATE;
+      title = template
+        .replace(/\{date\}/g, date)
+        .replace(/\{ai_title\}/g, aiTitle)
+        .replace(/\{file_name\}/g, file.original_name)
+        .replace(/\s+/g, ' ')
+        .trim();
+    }
+
+    if (!title) {
+      return date;
+    }
+    return title.length > MAX_TITLE_LENGTH
+      ? title.substring(0, MAX_TITLE_LENGTH - 1).trimEnd() + '…'
+      : title;
+  }
+
+  private buildIssueLabels(summary: SummaryResult | null, customLabels: string[] = []): string[] {
+    const suggested = (summary?.labels || [])
+      .map(label => label.toLowerCase().replace(/\s+/g, '-').substring(0, 50))
+      .filter(label => label.length > 0)
+      .slice(0, MAX_SUGGESTED_LABELS);
+    const custom = customLabels
+      .map(label => label.trim().substring(0, 50))
+      .filter(label => label.length > 0);
+    return Array.from(new Set([...DEFAULT_ISSUE_LABELS, ...custom, ...suggested]));
+  }
+
+  private formatTimestamp(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}`;
+  }
+
+  private buildIssueBody(file: ProcessedFile, summary: string, commit?: GitHubCommitResult, contentUrl?: string): string {
     const summarySection = summary ? `## 📋 要約
 
 ${summary}
 
 ` : '';
+    const commitLine = commit ? `  
+**保存先:** [${commit.path}](${commit.url})` : '';
+    const content = contentUrl
+      ? `本文が長すぎるため Issue には載せていません。全文: ${contentUrl}`
+      : `\`\`\`
+${file.content}
+\`\`\``;
 
     return `${summarySection}## 📎 Original Content
 
 **ファイル名:** ${file.original_name}  
 **ファイルサイズ:** ${this.formatFileSize(file.size)}  
-**ファイルタイプ:** ${file.type}
+**ファイルタイプ:** ${file.type}${commitLine}
 
-\`\`\`
-${file.content}
-\`\`\`
+${content}
 
 ---
 *このIssueはDiscordから自動生成されました*`;
   }
 
+  private buildPullRequestBody(file: ProcessedFile, summary: string, commit: GitHubCommitResult): string {
+    const summarySection = summary ? `## 📋 要約
+
+${summary}
+
+` : '';
+
+    return `${summarySection}## 📎 追加ファイル
+
+**保存先:** [${commit.path}](${commit.url})  
+**元ファイル名:** ${file.original_name}  
+**ファイルサイズ:** ${this.formatFileSize(file.size)}  
+**ファイルタイプ:** ${file.type}
+
+---
+*このPull RequestはDiscordから自動生成されました*`;
+  }
+
   private buildGistReadme(file: ProcessedFile, summary: string): string {
     return `# ${file.original_name}
 
@@ -307,23 +1036,30 @@ ${summary}
     channelId: string,
     userId: string,
     file: ProcessedFile,
-    result: GitHubIssueResult | GitHubGistResult,
-    summary: string
+    result: GitHubUploadResult,
+    summary: SummaryResult | null
   ): Promise<void> {
+    const operationTypes: Record<GitHubUploadResult['kind'], OperationLog['operation_type']> = {
+      issue: 'issue_creation',
+      gist: 'gist_creation',
+      commit: 'commit_creation',
+      pull_request: 'pr_creation',
+    };
+
     const operation: OperationLog = {
       id: this.generateId(),
       timestamp: new Date().toISOString(),
       guild_id: guildId,
       channel_id: channelId,
       user_id: userId,
-      operation_type: 'url' in result ? 'issue_creation' : 'gist_creation',
+      operation_type: operationTypes[result.kind],
       status: 'success',
       details: {
         file_name: file.original_name,
         file_size: file.size,
         file_type: file.type,
         github_url: result.url,
-        ai_summary_length: summary.length
+        ai_summary_length: summary?.summary.length || 0
       }
     };
 
@@ -364,25 +1100,7 @@ ${summary}
     try {
       Logger.info(`Handling installation created`, { installationId });
 
-      const installation = {
-        installation_id: installationId,
-        app_id: payload.installation.app_id,
-        account: {
-          login: payload.installation.account.login,
-          id: payload.installation.account.id,
-          type: payload.installation.account.type,
-        },
-        repositories: payload.repositories?.map((repo: any) => ({
-          id: repo.id,
-          name: repo.name,
-          full_name: repo.full_name,
-        })),
-        permissions: payload.installation.permissions,
-        created_at: payload.installation.created_at,
-        updated_at: payload.installation.updated_at,
-      };
-
-      await FileUtils.saveInstallation(installation);
+      await FileUtils.saveInstallation(this.buildInstallation(installationId, payload));
       
       Logger.info(`Installation saved`, { installationId });
 
@@ -392,6 +1110,164 @@ ${summary}
     }
   }
 
+  /**
+   * インストールの一時停止（suspend）・再開を記録する。一時停止中はアップロードを受け付けない。
+   */
+  async handleInstallationSuspended(installationId: number, payload: any, suspended: boolean): Promise<void> {
+    try {
+      Logger.info(`Handling installation ${suspended ? 'suspend' : 'unsuspend'}`, { installationId });
+
+      const installation = await FileUtils.getInstallation(installationId) || this.buildInstallation(installationId, payload);
+      if (suspended) {
+        installation.suspended_at = payload.installation.suspended_at || new Date().toISOString();
+      } else {
+        delete installation.suspended_at;
+      }
+      installation.updated_at = payload.installation.updated_at || new Date().toISOString();
+      await FileUtils.saveInstallation(installation);
+
+      // 一時停止前に発行したトークンを使い回さないよう、クライアントを作り直させる
+      this.installationClients.delete(installationId);
+
+    } catch (error) {
+      Logger.error(`Failed to handle installation ${suspended ? 'suspend' : 'unsuspend'}`, error as Error, { installationId });
+      throw error;
+    }
+  }
+
+  /**
+   * アクセス対象に追加されたリポジトリを記録し、再追加されたリポジトリの解除フラグを外す。
+   */
+  async handleRepositoriesAdded(installationId: number, payload: any): Promise<void> {
+    try {
+      const added = this.toRepositories(payload.repositories_added);
+      Logger.info(`Handling repositories added`, { installationId, repositoryCount: added.length });
+
+      const installation = await FileUtils.getInstallation(installationId) || this.buildInstallation(installationId, payload);
+      const repositories = new Map((installation.repositories || []).map(repo => [repo.id, repo]));
+      for (const repo of added) {
+        repositories.set(repo.id, repo);
+      }
+      installation.repositories = [...repositories.values()];
+      await FileUtils.saveInstallation(installation);
+
+      const addedNames = new Set(added.map(repo => repo.full_name.toLowerCase()));
+      for (const mapping of await FileUtils.findGuildsByInstallation(installationId)) {
+        const removedRepos = mapping.removed_repos || [];
+        const remaining = removedRepos.filter(repo => !addedNames.has(repo.full_name.toLowerCase()));
+        if (remaining.length !== removedRepos.length) {
+          await this.saveRemovedRepos(mapping, remaining);
+          Logger.info(`Removed repositories restored`, { guildId: mapping.guild_id, installationId });
+        }
+      }
+
+    } catch (error) {
+      Logger.error(`Failed to handle repositories added`, error as Error, { installationId });
+      throw error;
+    }
+  }
+
+  /**
+   * アクセス対象から外されたリポジトリを記録する。ギルドの紐付け先（既定 / チャンネル別）が含まれていれば
+   * 紐付けにフラグを立て、管理用チャンネルに通知する。
+   */
+  async handleRepositoriesRemoved(installationId: number, payload: any): Promise<void> {
+    try {
+      const removed = this.toRepositories(payload.repositories_removed);
+      Logger.info(`Handling repositories removed`, { installationId, repositoryCount: removed.length });
+
+      const installation = await FileUtils.getInstallation(installationId);
+      if (installation?.repositories) {
+        const removedIds = new Set(removed.map(repo => repo.id));
+        installation.repositories = installation.repositories.filter(repo => !removedIds.has(repo.id));
+        await FileUtils.saveInstallation(installation);
+      }
+
+      const removedNames = new Set(removed.map(repo => repo.full_name.toLowerCase()));
+      const removedAt = new Date().toISOString();
+      for (const mapping of await FileUtils.findGuildsByInstallation(installationId)) {
+        const flagged = new Set((mapping.removed_repos || []).map(repo => repo.full_name.toLowerCase()));
+        const affected = this.getMappedRepos(mapping)
+          .filter(name => removedNames.has(name.toLowerCase()) && !flagged.has(name.toLowerCase()));
+        if (affected.length === 0) continue;
+
+        await this.saveRemovedRepos(mapping, [
+          ...(mapping.removed_repos || []),
+          ...affected.map(full_name => ({ full_name, removed_at: removedAt })),
+        ]);
+        Logger.warn(`Mapped repositories removed from installation`, {
+          guildId: mapping.guild_id,
+          installationId,
+          repositories: affected
+        });
+        await this.notifyRepositoriesRemoved(mapping, affected);
+      }
+
+    } catch (error) {
+      Logger.error(`Failed to handle repositories removed`, error as Error, { installationId });
+      throw error;
+    }
+  }
+
+  private buildInstallation(installationId: number, payload: any): GitHubInstallation {
+    return {
+      installation_id: installationId,
+      app_id: payload.installation.app_id,
+      account: {
+        login: payload.installation.account.login,
+        id: payload.installation.account.id,
+        type: payload.installation.account.type,
+      },
+      ...(payload.repositories ? { repositories: this.toRepositories(payload.repositories) } : {}),
+      permissions: payload.installation.permissions,
+      created_at: payload.installation.created_at,
+      updated_at: payload.installation.updated_at,
+      ...(payload.installation.suspended_at ? { suspended_at: payload.installation.suspended_at } : {}),
+    };
+  }
+
+  private toRepositories(repositories: any[] | undefined): NonNullable<GitHubInstallation['repositories']> {
+    return (repositories || []).map(repo => ({
+      id: repo.id,
+      name: repo.name,
+      full_name: repo.full_name,
+    }));
+  }
+
+  // ギルドの保存先として使われているリポジトリ（owner/name、重複なし）
+  private getMappedRepos(mapping: GuildMapping): string[] {
+    const repos = [
+      mapping.default_repo,
+      ...(mapping.channels || []).flatMap(ch => ch.repo_override ? [ch.repo_override] : []),
+    ];
+    return [...new Set(repos.map(repo => `${repo.owner}/${repo.name}`))];
+  }
+
+  private async saveRemovedRepos(mapping: GuildMapping, removedRepos: NonNullable<GuildMapping['removed_repos']>): Promise<void> {
+    const updated: GuildMapping = { ...mapping, removed_repos: removedRepos, updated_at: new Date().toISOString() };
+    if (removedRepos.length === 0) {
+      delete updated.removed_repos;
+    }
+    await FileUtils.saveGuildMapping(updated);
+  }
+
+  private async notifyRepositoriesRemoved(mapping: GuildMapping, repos: string[]): Promise<void> {
+    if (!mapping.admin_channel_id) {
+      Logger.warn(`No admin channel configured; skipping removed repository notice`, { guildId: mapping.guild_id });
+      return;
+    }
+
+    const content = [
+      `⚠️ GitHub App のアクセス対象から次のリポジトリが外されました: ${repos.map(repo => `\`${repo}\``).join(', ')}`,
+      'これらのリポジトリへの保存は停止しています。App の設定でリポジトリを再追加するか、/config repo で保存先を変更してください。',
+    ].join('\n');
+    try {
+      await this.discordNotifyService.sendMessage(mapping.admin_channel_id, content);
+    } catch {
+      // 通知に失敗してもフラグは記録済み（/config status で確認できる）。Webhook の再送で二重に処理しないよう成功扱いにする
+    }
+  }
+
   async handleInstallationDeleted(installationId: number): Promise<void> {
     try {
       Logger.info(`Handling installation deleted`, { installationId });
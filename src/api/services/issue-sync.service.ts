@@ -0,0 +1,134 @@
+import { Logger } from '../../shared/logger';
+import { FileUtils } from '../../shared/file-utils';
+import { IssueLink } from '../../shared/types';
+import { ConfigService } from './config.service';
+import { DiscordNotifyService } from './discord-notify.service';
+
+const MAX_COMMENT_PREVIEW = 1500;
+
+export interface IssueEventPayload {
+  action: string;
+  issue?: {
+    number: number;
+    title: string;
+    html_url: string;
+    state_reason?: string | null;
+    pull_request?: unknown;
+  };
+  comment?: {
+    body: string;
+    html_url: string;
+    user: { login: string; type: string };
+    performed_via_github_app?: { id: number } | null;
+  };
+  label?: { name: string };
+  repository?: {
+    name: string;
+    owner: { login: string };
+  };
+  sender?: { login: string; type: string };
+}
+
+/**
+ * Bot が作成した Issue の状態変化・コメントを、作成を告知した Discord メッセージへの返信として流す。
+ */
+export class IssueSyncService {
+  private notifier: DiscordNotifyService;
+  private configService: ConfigService;
+
+  constructor(notifier: DiscordNotifyService = new DiscordNotifyService(), configService: ConfigService = new ConfigService()) {
+    this.notifier = notifier;
+    this.configService = configService;
+  }
+
+  async handleIssuesEvent(payload: IssueEventPayload): Promise<void> {
+    const link = await this.findLink(payload);
+    if (!link || !payload.issue) return;
+
+    // Issue 作成時にこの App 自身が付けたラベルは通知しない（他の Bot によるラベル変更は通知する）
+    if ((payload.action === 'labeled' || payload.action === 'unlabeled') && await this.isOwnBot(payload.sender)) {
+      return;
+    }
+
+    const ref = `${this.kindName(payload)} #${payload.issue.number}`;
+    const actor = payload.sender?.login || 'unknown';
+    let content: string | undefined;
+
+    switch (payload.action) {
+      case 'closed':
+        content = `🔒 ${ref} がクローズされました（${actor}${payload.issue.state_reason === 'not_planned' ? ' / not planned' : ''}）`;
+        break;
+      case 'reopened':
+        content = `🔓 ${ref} が再オープンされました（${actor}）`;
+        break;
+      case 'labeled':
+        content = `🏷️ ${ref} にラベル「${payload.label?.name}」が追加されました（${actor}）`;
+        break;
+      case 'unlabeled':
+        content = `🏷️ ${ref} からラベル「${payload.label?.name}」が外されました（${actor}）`;
+        break;
+      default:
+        Logger.debug(`Unhandled issues action: ${payload.action}`);
+        return;
+    }
+
+    await this.post(link, `${content}\n${payload.issue.html_url}`);
+  }
+
+  async handleIssueCommentEvent(payload: IssueEventPayload): Promise<void> {
+    if (payload.action !== 'created' || !payload.comment || !payload.issue) return;
+
+    // Discord からの返信を Bot がコメントしたもの（二重投稿になる）は流さない
+    const appId = parseInt(process.env.GITHUB_APP_ID || '', 10);
+    if (payload.comment.performed_via_github_app?.id === appId) return;
+
+    const link = await this.findLink(payload);
+    if (!link) return;
+
+    const body = payload.comment.body.trim();
+    const preview = body.length > MAX_COMMENT_PREVIEW
+      ? body.substring(0, MAX_COMMENT_PREVIEW - 1).trimEnd() + '…'
+      : body;
+    const quoted = preview.split('\n').map(line => `> ${line}`).join('\n');
+
+    await this.post(
+      link,
+      `💬 ${payload.comment.user.login} が ${this.kindName(payload)} #${payload.issue.number} にコメントしました:\n${quoted}\n${payload.comment.html_url}`
+    );
+  }
+
+  private async isOwnBot(sender: IssueEventPayload['sender']): Promise<boolean> {
+    if (sender?.type !== 'Bot') return false;
+    try {
+      return sender.login === `${await this.configService.getAppSlug()}[bot]`;
+    } catch (error) {
+      // slug が分からない場合は、作成時のラベルを毎回通知しないよう Bot によるものはすべて除外する
+      Logger.warn('Failed to resolve GitHub App slug; skipping label events from all bots', {
+        error: (error as Error).message
+      });
+      return true;
+    }
+  }
+
+  private async findLink(payload: IssueEventPayload): Promise<IssueLink | null> {
+    if (!payload.issue || !payload.repository) return null;
+    return FileUtils.getIssueLink(
+      payload.repository.owner.login,
+      payload.repository.name,
+      payload.issue.number
+    );
+  }
+
+  private kindName(payload: IssueEventPayload): string {
+    return payload.issue?.pull_request ? 'PR' : 'Issue';
+  }
+
+  private async post(link: IssueLink, content: string): Promise<void> {
+    await this.notifier.sendMessage(link.channel_id, content, { replyTo: link.message_id });
+    Logger.info('Issue update posted to Discord', {
+      issueUrl: link.issue_url,
+      guildId: link.guild_id,
+      channelId: link.channel_id
+    });
+  }
+}
@@ -0,0 +1,269 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { ExternalServiceError, ValidationError } from '../../shared/error-handler';
+import { SecretStore, SECRET_KEYS } from '../../shared/secret-store';
+
+export type LLMProviderName = 'openai' | 'azure' | 'anthropic' | 'openai_compatible';
+
+export const LLM_PROVIDER_NAMES: readonly LLMProviderName[] = ['openai', 'azure', 'anthropic', 'openai_compatible'];
+
+export interface LLMChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  messages: LLMChatMessage[];
+  // 省略時はプロバイダに設定されたモデル
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // JSON オブジェクトのみを返させる（対応していないプロバイダではプロンプトの指示に任せる）
+  json?: boolean;
+}
+
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface LLMCompletion {
+  content: string;
+  // サーバーが返さない場合（一部の互換サーバーなど）は undefined
+  usage?: LLMUsage;
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly displayName: string;
+  readonly model: string;
+  complete(request: LLMCompletionRequest): Promise<LLMCompletion>;
+}
+
+export interface LLMSettings {
+  provider: LLMProviderName;
+  model: string;
+  baseUrl?: string;
+  apiKey?: string;
+}
+
+const DEFAULT_MODELS: Record<LLMProviderName, string | undefined> = {
+  openai: 'gpt-4o-mini',
+  azure: undefined, // デプロイ名を指定する
+  anthropic: 'claude-3-5-haiku-latest',
+  openai_compatible: undefined,
+};
+
+const DISPLAY_NAMES: Record<LLMProviderName, string> = {
+  openai: 'OpenAI',
+  azure: 'Azure OpenAI',
+  anthropic: 'Anthropic',
+  openai_compatible: 'OpenAI互換',
+};
+
+const DEFAULT_AZURE_API_VERSION = '2024-06-01';
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_DEFAULT_MAX_TOKENS = 4096;
+
+export function isLLMProviderName(value: string): value is LLMProviderName {
+  return (LLM_PROVIDER_NAMES as readonly string[]).includes(value);
+}
+
+export function getProviderDisplayName(name: LLMProviderName): string {
+  return DISPLAY_NAMES[name];
+}
+
+export function getDefaultModel(name: LLMProviderName): string | undefined {
+  return DEFAULT_MODELS[name];
+}
+
+function toOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * openai SDK で話せるプロバイダ（OpenAI / Azure OpenAI / Ollama・llama.cpp などの互換サーバー）。
+ */
+class OpenAIChatProvider implements LLMProvider {
+  readonly displayName: string;
+
+  constructor(
+    readonly name: LLMProviderName,
+    readonly model: string,
+    private client: OpenAI
+  ) {
+    this.displayName = DISPLAY_NAMES[name];
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model || this.model,
+      messages: request.messages,
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+      ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+    return {
+      content: response.choices[0]?.message?.content || '',
+      ...(response.usage
+        ? { usage: { promptTokens: response.usage.prompt_tokens, completionTokens: response.usage.completion_tokens } }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Anthropic Messages API。SDK は入れずに fetch で呼ぶ。
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly displayName = DISPLAY_NAMES.anthropic;
+
+  constructor(
+    readonly model: string,
+    private apiKey: string,
+    private baseUrl: string = ANTHROPIC_API_URL
+  ) {}
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const messages = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role, content: m.content }));
+
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': ANTHROPIC_API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model || this.model,
+        max_tokens: request.maxTokens ?? ANTHROPIC_DEFAULT_MAX_TOKENS,
+        messages,
+        ...(system ? { system } : {}),
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+    });
+
+    const data = await response.json().catch(() => ({})) as {
+      content?: Array<{ type: string; text?: string }>;
+      usage?: { input_tokens: number; output_tokens: number };
+      error?: { type: string; message: string };
+    };
+    if (!response.ok) {
+      throw new ExternalServiceError('Anthropic', `API Error: ${data.error?.message || response.statusText}`, {
+        status: response.status,
+        type: data.error?.type,
+        headers: { 'retry-after': response.headers.get('retry-after') || undefined },
+      });
+    }
+
+    return {
+      content: (data.content || [])
+        .filter(block => block.type === 'text')
+        .map(block => block.text || '')
+        .join(''),
+      ...(data.usage
+        ? { usage: { promptTokens: data.usage.input_tokens, completionTokens: data.usage.output_tokens } }
+        : {}),
+    };
+  }
+}
+
+/**
+ * Guild ごとの設定（SecretStore）から LLM プロバイダを組み立てる。
+ * リトライは呼び出し側（shared/resilience）で行うため、SDK の自動リトライは無効にする。
+ * 未設定の項目は環境変数 LLM_PROVIDER / LLM_MODEL / LLM_BASE_URL / OPENAI_API_KEY にフォールバックする。
+ * ただし Guild が base_url を設定している場合、運営側のキー（OPENAI_API_KEY）は使わない（任意の接続先にキーを送らないため）。
+ */
+export class LLMProviderFactory {
+  static async getSettings(guildId: string): Promise<LLMSettings> {
+    const [storedProvider, storedModel, storedBaseUrl, storedKey] = await Promise.all([
+      SecretStore.get(guildId, SECRET_KEYS.llmProvider),
+      SecretStore.get(guildId, SECRET_KEYS.llmModel),
+      SecretStore.get(guildId, SECRET_KEYS.llmBaseUrl),
+      SecretStore.get(guildId, SECRET_KEYS.openai),
+    ]);
+
+    const providerValue = storedProvider || process.env.LLM_PROVIDER || 'openai';
+    const provider = isLLMProviderName(providerValue) ? providerValue : 'openai';
+    const model = storedModel || process.env.LLM_MODEL || DEFAULT_MODELS[provider] || '';
+    // 許可リストを後から設定した場合に備え、保存済みの base_url も使う前に確認する
+    if (storedBaseUrl) this.assertAllowedBaseUrl(storedBaseUrl);
+    const baseUrl = storedBaseUrl || process.env.LLM_BASE_URL;
+    // 運営側の OPENAI_API_KEY は OpenAI 本体にだけ送る。他のプロバイダや接続先では guild が保存したキーを使い、
+    // なければ create() が ValidationError にする
+    const apiKey = storedKey || (provider === 'openai' && !baseUrl ? process.env.OPENAI_API_KEY : undefined);
+
+    return {
+      provider,
+      model,
+      ...(baseUrl ? { baseUrl } : {}),
+      ...(apiKey ? { apiKey } : {}),
+    };
+  }
+
+  /**
+   * Guild が設定する base_url を、運営側の許可リスト（LLM_ALLOWED_BASE_URLS、カンマ区切り）のオリジンに限る。
+   * 未設定の場合は制限しない。
+   */
+  static assertAllowedBaseUrl(baseUrl: string): void {
+    const allowed = (process.env.LLM_ALLOWED_BASE_URLS || '').split(',').map(entry => entry.trim()).filter(Boolean);
+    if (allowed.length === 0) return;
+
+    const origin = toOrigin(baseUrl);
+    if (!origin || !allowed.some(entry => toOrigin(entry) === origin)) {
+      throw new ValidationError(`base_url ${origin || baseUrl} は許可されていません。運営者が許可した接続先のみ使用できます。`);
+    }
+  }
+
+  static async forGuild(guildId: string): Promise<LLMProvider> {
+    return this.create(await this.getSettings(guildId));
+  }
+
+  static create(settings: LLMSettings): LLMProvider {
+    const { provider, model, baseUrl, apiKey } = settings;
+    if (!model) {
+      throw new ValidationError(`${DISPLAY_NAMES[provider]} のモデル名が未設定です。/config llm の model で指定してください。`);
+    }
+
+    switch (provider) {
+      case 'openai':
+        if (!apiKey) {
+          throw new ValidationError('OpenAI APIキーが未設定です。/config openai_key で設定してください。');
+        }
+        return new OpenAIChatProvider(provider, model, new OpenAI({ apiKey, maxRetries: 0, ...(baseUrl ? { baseURL: baseUrl } : {}) }));
+
+      case 'azure':
+        if (!apiKey || !baseUrl) {
+          throw new ValidationError('Azure OpenAI には APIキー（/config openai_key）とエンドポイント（/config llm の base_url）が必要です。');
+        }
+        // deployment は固定せず、リクエストの model（デプロイ名）から URL を組み立てさせる
+        return new OpenAIChatProvider(provider, model, new AzureOpenAI({
+          apiKey,
+          endpoint: baseUrl,
+          apiVersion: process.env.AZURE_OPENAI_API_VERSION || DEFAULT_AZURE_API_VERSION,
+          maxRetries: 0,
+        }));
+
+      case 'anthropic':
+        if (!apiKey) {
+          throw new ValidationError('Anthropic APIキーが未設定です。/config openai_key で設定してください。');
+        }
+        return new AnthropicProvider(model, apiKey, baseUrl);
+
+      case 'openai_compatible':
+        if (!baseUrl) {
+          throw new ValidationError('OpenAI互換サーバーの URL が未設定です。/config llm の base_url で指定してください（例: http://localhost:11434/v1）。');
+        }
+        // Ollama などローカルサーバーはキー不要だが、SDK は空文字を受け付けない
+        return new OpenAIChatProvider(provider, model, new OpenAI({ apiKey: apiKey || 'not-needed', baseURL: baseUrl, maxRetries: 0 }));
+    }
+  }
+}
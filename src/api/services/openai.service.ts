@@ -1,18 +1,60 @@
-import OpenAI from 'openai';
 import { Logger } from '../../shared/logger';
-import { ExternalServiceError, ValidationError } from '../../shared/error-handler';
+import { AppError, ExternalServiceError } from '../../shared/error-handler';
 import { Metrics } from '../../shared/metrics';
-import { ProcessedFile } from '../../shared/types';
+import { LLMBudget, LLMOperation, ProcessedFile } from '../../shared/types';
+import { FileUtils } from '../../shared/file-utils';
 import * as fs from 'fs';
 import * as yaml from 'js-yaml';
-import { SecretStore, SECRET_KEYS } from '../../shared/secret-store';
+import { TextChunker } from '../../shared/text-chunker';
+import { UsageTracker } from '../../shared/usage-tracker';
+import { Resilience } from '../../shared/resilience';
+import { LLMCompletionRequest, LLMProvider, LLMProviderFactory } from './llm-provider';
+
+export interface SummaryProgress {
+  completed: number;
+  total: number;
+}
+
+export type SummaryProgressCallback = (progress: SummaryProgress) => Promise<void> | void;
 
 export interface SummarizationOptions {
   maxLength?: number;
   style?: 'brief' | 'detailed' | 'bullet-points';
   language?: 'ja' | 'en';
+  // 分割要約の進捗（チャンクが2つ以上ある場合のみ呼ばれる）
+  onProgress?: SummaryProgressCallback;
+}
+
+export interface SummaryResult {
+  title: string;
+  summary: string;
+  labels: string[];
+}
+
+// /config model で上書きされていない場合の temperature
+const DEFAULT_TEMPERATURES: Record<LLMOperation, number> = {
+  summary: 0.5,
+  format: 0.5,
+  tweet: 0.7,
+};
+
+// 1回のプロンプトに入れるファイル本文の上限（推定トークン数）と、1ファイルあたりのチャンク数上限
+const DEFAULT_CHUNK_TOKENS = 6000;
+const DEFAULT_MAX_CHUNKS = 20;
+
+interface GenerationSettings {
+  provider: LLMProvider;
+  model: string;
+  temperature: number;
+  maxTokens?: number;
+  // 使用量の記録・回数制限の対象ユーザー
+  userId?: string;
+  budget?: LLMBudget;
 }
 
+/**
+ * 要約・整形などの LLM 呼び出し。実際の接続先は Guild ごとに設定されたプロバイダ（llm-provider）で決まる。
+ */
 export class OpenAIService {
   private prompts: any;
 
@@ -21,12 +63,70 @@ export class OpenAIService {
     this.loadPrompts();
   }
 
-  private async getClientForGuild(guildId: string): Promise<OpenAI> {
-    const key = await SecretStore.get(guildId, SECRET_KEYS.openai) || process.env.OPENAI_API_KEY;
-    if (!key) {
-      throw new ValidationError('OpenAI APIキーが未設定です。/config openai_key で設定してください。');
+  private async getProviderForGuild(guildId: string): Promise<LLMProvider> {
+    return LLMProviderFactory.forGuild(guildId);
+  }
+
+  /**
+   * 処理ごとのモデル・生成設定（Guild 設定の llm_settings）と利用上限（llm_budget）を解決する。
+   */
+  private async getGenerationSettings(guildId: string, operation: LLMOperation, userId?: string): Promise<GenerationSettings> {
+    const provider = await this.getProviderForGuild(guildId);
+    const mapping = await FileUtils.getGuildMapping(guildId);
+    const settings = mapping?.llm_settings?.[operation] || {};
+    return {
+      provider,
+      model: settings.model || provider.model,
+      temperature: settings.temperature ?? DEFAULT_TEMPERATURES[operation],
+      ...(settings.max_tokens ? { maxTokens: settings.max_tokens } : {}),
+      ...(userId ? { userId } : {}),
+      ...(mapping?.llm_budget ? { budget: mapping.llm_budget } : {}),
+    };
+  }
+
+  /**
+   * 生成してトークン使用量を記録する。usage を返さないサーバーの場合は記録しない。
+   * 分割要約のように1つの処理で何度も呼ぶ場合もあるので、利用上限は呼び出しごとに確認する（超えていれば UsageLimitError）。
+   */
+  private async complete(
+    guildId: string,
+    operation: LLMOperation,
+    generation: GenerationSettings,
+    request: LLMCompletionRequest
+  ): Promise<string> {
+    const { provider } = generation;
+    await UsageTracker.acquire(guildId, generation.userId, generation.budget);
+    const completion = await Resilience.execute('openai', guildId, () => provider.complete(request));
+    if (completion.usage) {
+      await UsageTracker.record({
+        guildId,
+        ...(generation.userId ? { userId: generation.userId } : {}),
+        operation,
+        provider: provider.name,
+        model: request.model || provider.model,
+        promptTokens: completion.usage.promptTokens,
+        completionTokens: completion.usage.completionTokens,
+      });
+    }
+    return completion.content;
+  }
+
+  /**
+   * プロバイダの例外を ExternalServiceError に揃える（設定不備などの AppError はそのまま）。
+   */
+  private toServiceError(provider: LLMProvider | null, error: unknown): Error {
+    if (error instanceof AppError) {
+      return error;
     }
-    return new OpenAI({ apiKey: key });
+    const service = provider?.displayName || 'LLM';
+    const errorAny = error as any;
+    if (errorAny.status && errorAny.type) {
+      return new ExternalServiceError(service, `API Error: ${(error as Error).message}`, {
+        status: errorAny.status,
+        type: errorAny.type
+      });
+    }
+    return new ExternalServiceError(service, `Unexpected error: ${(error as Error).message}`);
   }
 
   private loadPrompts(): void {
@@ -42,9 +142,11 @@ export class OpenAIService {
   async summarizeFile(
     file: ProcessedFile,
     options: SummarizationOptions = {},
-    guildId: string
-  ): Promise<string> {
+    guildId: string,
+    userId?: string
+  ): Promise<SummaryResult> {
     const startTime = Date.now();
+    let generation: GenerationSettings | null = null;
     
     try {
       Logger.info(`Starting file summarization`, {
@@ -53,41 +155,57 @@ export class OpenAIService {
         fileType: file.type
       });
 
-      const client = await this.getClientForGuild(guildId);
-      const prompt = this.buildSummarizationPrompt(file, options);
-      
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content: this.getSystemPrompt(options)
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.5,
-      });
-
-      const summary = response.choices[0]?.message?.content;
+      generation = await this.getGenerationSettings(guildId, 'summary', userId);
+      const { provider } = generation;
+      const chunkTokens = this.getChunkTokens();
+
+      let content: string;
+      let omittedChunks = 0;
+      if (TextChunker.estimateTokens(file.content) > chunkTokens) {
+        ({ content, omittedChunks } = await this.summarizeInChunks(file, generation, chunkTokens, options, guildId));
+      } else {
+        const prompt = this.buildSummarizationPrompt(file, options);
+        content = await this.complete(guildId, 'summary', generation, {
+          model: generation.model,
+          messages: [
+            {
+              role: 'system',
+              content: this.getSystemPrompt(options)
+            },
+            {
+              role: 'user',
+              content: prompt
+            }
+          ],
+          temperature: generation.temperature,
+          ...(generation.maxTokens ? { maxTokens: generation.maxTokens } : {}),
+          json: true,
+        });
+      }
       
-      if (!summary) {
-        throw new ExternalServiceError('OpenAI', 'No summary generated');
+      if (!content) {
+        throw new ExternalServiceError(provider.displayName, 'No summary generated');
       }
 
+      const result = this.parseSummaryResponse(content);
+      if (omittedChunks > 0) {
+        result.summary += `\n\n> ⚠️ ファイルが長すぎるため、末尾の ${omittedChunks} チャンク分は要約に含まれていません。`;
+      }
       const duration = (Date.now() - startTime) / 1000;
       
       Logger.info(`File summarization completed`, {
         fileName: file.original_name,
-        summaryLength: summary.length,
+        summaryLength: result.summary.length,
+        hasTitle: !!result.title,
+        labelCount: result.labels.length,
+        provider: provider.name,
+        model: generation.model,
         duration: `${duration}s`
       });
 
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'success');
+      Metrics.recordOpenAIApiCall(generation.model, 'success');
       
-      return summary.trim();
+      return result;
       
     } catch (error) {
       const duration = (Date.now() - startTime) / 1000;
@@ -97,20 +215,89 @@ export class OpenAIService {
         duration: `${duration}s`
       });
 
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'error');
-      
-      const errorAny = error as any;
-      if (errorAny.status && errorAny.type) {
-        throw new ExternalServiceError('OpenAI', `API Error: ${(error as Error).message}`, {
-          status: errorAny.status,
-          type: errorAny.type
-        });
-      }
+      if (generation) Metrics.recordOpenAIApiCall(generation.model, 'error');
       
-      throw new ExternalServiceError('OpenAI', `Unexpected error: ${(error as Error).message}`);
+      throw this.toServiceError(generation?.provider || null, error);
+    }
+  }
+
+  /**
+   * コンテキストに収まらないファイルをチャンクごとに要約（map）し、最後に1つの構造化要約にまとめる（reduce）。
+   * チャンク数が上限を超える分は要約しない。
+   */
+  private async summarizeInChunks(
+    file: ProcessedFile,
+    generation: GenerationSettings,
+    chunkTokens: number,
+    options: SummarizationOptions,
+    guildId: string
+  ): Promise<{ content: string; omittedChunks: number }> {
+    const allChunks = TextChunker.split(file.content, chunkTokens);
+    const chunks = allChunks.slice(0, this.getMaxChunks());
+    const total = chunks.length;
+    const omittedChunks = allChunks.length - total;
+
+    Logger.info(`Summarizing file in chunks`, {
+      fileName: file.original_name,
+      chunks: total,
+      omittedChunks
+    });
+    await this.reportProgress(options.onProgress, 0, total);
+
+    const partials: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      const prompt = this.prompts.issue.chunk_template.content
+        .replace('{index}', `${i + 1}`)
+        .replace('{total}', `${total}`)
+        .replace('{content}', () => chunk);
+      const partial = await this.complete(guildId, 'summary', generation, {
+        model: generation.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: generation.temperature,
+      });
+      Metrics.recordOpenAIApiCall(generation.model, 'success');
+      partials.push(`## パート ${i + 1}/${total}\n${partial.trim()}`);
+      await this.reportProgress(options.onProgress, i + 1, total);
+    }
+
+    const mergePrompt = this.prompts.issue.merge_template.content
+      .replace('{file_name}', () => file.original_name)
+      .replace('{total}', `${total}`)
+      .replace('{content}', () => partials.join('\n\n'));
+    const content = await this.complete(guildId, 'summary', generation, {
+      model: generation.model,
+      messages: [
+        { role: 'system', content: this.getSystemPrompt(options) },
+        { role: 'user', content: `${mergePrompt}\n${this.prompts.issue.structured_output.content}` }
+      ],
+      temperature: generation.temperature,
+      ...(generation.maxTokens ? { maxTokens: generation.maxTokens } : {}),
+      json: true,
+    });
+
+    return { content, omittedChunks };
+  }
+
+  private async reportProgress(callback: SummaryProgressCallback | undefined, completed: number, total: number): Promise<void> {
+    if (!callback) return;
+    try {
+      await callback({ completed, total });
+    } catch (error) {
+      // 進捗表示の失敗で要約自体は止めない
+      Logger.warn('Failed to report summary progress', { error: (error as Error).message });
     }
   }
 
+  private getChunkTokens(): number {
+    const v = parseInt(process.env.SUMMARY_CHUNK_TOKENS || `${DEFAULT_CHUNK_TOKENS}`, 10);
+    return Number.isFinite(v) && v > 0 ? v : DEFAULT_CHUNK_TOKENS;
+  }
+
+  private getMaxChunks(): number {
+    const v = parseInt(process.env.SUMMARY_MAX_CHUNKS || `${DEFAULT_MAX_CHUNKS}`, 10);
+    return Number.isFinite(v) && v > 0 ? v : DEFAULT_MAX_CHUNKS;
+  }
+
   private getSystemPrompt(options: SummarizationOptions): string {
     return this.prompts.issue.system_prompt.content;
   }
@@ -121,7 +308,33 @@ export class OpenAIService {
     // Replace placeholders
     promptTemplate = promptTemplate.replace('{content}', file.content);
     
-    return promptTemplate;
+    return `${promptTemplate}\n${this.prompts.issue.structured_output.content}`;
+  }
+
+  /**
+   * Parses the JSON returned for the structured summary prompt.
+   * If the model ignored the format, the raw text is kept as the summary
+   * and the title is left empty so the caller falls back to a timestamp.
+   */
+  private parseSummaryResponse(raw: string): SummaryResult {
+    const text = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    try {
+      const parsed = JSON.parse(text) as Record<string, unknown>;
+      const summary = typeof parsed.summary === 'string' ? parsed.summary.trim() : '';
+      if (!summary) {
+        throw new Error('summary field missing');
+      }
+      const title = typeof parsed.title === 'string' ? parsed.title.replace(/\s+/g, ' ').trim() : '';
+      const labels = Array.isArray(parsed.labels)
+        ? parsed.labels.filter((l): l is string => typeof l === 'string' && l.trim().length > 0).map(l => l.trim())
+        : [];
+      return { title, summary, labels };
+    } catch (error) {
+      Logger.warn('Structured summary could not be parsed, using raw text', {
+        error: (error as Error).message
+      });
+      return { title: '', summary: raw.trim(), labels: [] };
+    }
   }
 
 
@@ -170,27 +383,27 @@ export class OpenAIService {
 
   async healthCheckForGuild(guildId: string): Promise<boolean> {
     try {
-      const client = await this.getClientForGuild(guildId);
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const provider = await this.getProviderForGuild(guildId);
+      const { content } = await provider.complete({
         messages: [
           {
             role: 'user',
             content: 'Hello, this is a health check.'
           }
         ],
-        max_tokens: 10,
+        maxTokens: 10,
       });
 
-      return response.choices.length > 0;
+      return content.length > 0;
     } catch (error) {
-      Logger.error('OpenAI health check failed', error as Error);
+      Logger.error('LLM health check failed', error as Error);
       return false;
     }
   }
 
-  async formatWithInsert(content: string, style: 'prep' | 'pas', guildId: string): Promise<string> {
+  async formatWithInsert(content: string, style: 'prep' | 'pas', guildId: string, userId?: string): Promise<string> {
     const startTime = Date.now();
+    let generation: GenerationSettings | null = null;
     
     try {
       Logger.info(`Starting insert formatting`, {
@@ -198,7 +411,8 @@ export class OpenAIService {
         contentLength: content.length
       });
 
-      const client = await this.getClientForGuild(guildId);
+      generation = await this.getGenerationSettings(guildId, 'format', userId);
+      const { provider } = generation;
       const systemPrompt = this.prompts.insert.system_prompt.content;
       const template = style === 'prep' 
         ? this.prompts.insert.prep_template.content 
@@ -206,8 +420,8 @@ export class OpenAIService {
       
       const userPrompt = template.replace('{content}', content);
       
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const result = await this.complete(guildId, 'format', generation, {
+        model: generation.model,
         messages: [
           {
             role: 'system',
@@ -218,13 +432,12 @@ export class OpenAIService {
             content: userPrompt
           }
         ],
-        temperature: 0.5,
+        temperature: generation.temperature,
+        ...(generation.maxTokens ? { maxTokens: generation.maxTokens } : {}),
       });
-
-      const result = response.choices[0]?.message?.content;
       
       if (!result) {
-        throw new ExternalServiceError('OpenAI', 'No formatted content generated');
+        throw new ExternalServiceError(provider.displayName, 'No formatted content generated');
       }
 
       // ガイドラインや指示文を除去
@@ -235,10 +448,12 @@ export class OpenAIService {
       Logger.info(`Insert formatting completed`, {
         style,
         resultLength: cleanedResult.length,
+        provider: provider.name,
+        model: generation.model,
         duration: `${duration}s`
       });
 
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'success');
+      Metrics.recordOpenAIApiCall(generation.model, 'success');
       
       return cleanedResult.trim();
       
@@ -251,28 +466,22 @@ export class OpenAIService {
         duration: `${duration}s`
       });
 
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'error');
-      
-      const errorAny = error as any;
-      if (errorAny.status && errorAny.type) {
-        throw new ExternalServiceError('OpenAI', `API Error: ${(error as Error).message}`, {
-          status: errorAny.status,
-          type: errorAny.type
-        });
-      }
+      if (generation) Metrics.recordOpenAIApiCall(generation.model, 'error');
       
-      throw new ExternalServiceError('OpenAI', `Unexpected error: ${(error as Error).message}`);
+      throw this.toServiceError(generation?.provider || null, error);
     }
   }
 
   /**
    * Summarize long text for tweeting. Uses twitter prompts from prompts.yaml.
-   * Falls back to truncation if OpenAI fails.
+   * Falls back to truncation if the LLM call fails.
    */
-  async summarizeForTweet(longText: string, guildId: string, maxChars: number = 280): Promise<string> {
+  async summarizeForTweet(longText: string, guildId: string, maxChars: number = 280, userId?: string): Promise<string> {
     const startTime = Date.now();
+    let generation: GenerationSettings | null = null;
     try {
-      const client = await this.getClientForGuild(guildId);
+      generation = await this.getGenerationSettings(guildId, 'tweet', userId);
+      const { provider } = generation;
 
       // Build prompts from YAML and inject runtime hints about max length
       const systemPrompt: string = this.prompts?.twitter?.system || 'You are a skilled social media copywriter.';
@@ -280,19 +489,19 @@ export class OpenAIService {
 
       const userPrompt = `${baseUser}\n\n(Keep under ${maxChars} characters including spaces.)\n\n---\n${longText}`;
 
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const response = await this.complete(guildId, 'tweet', generation, {
+        model: generation.model,
         messages: [
           { role: 'system', content: systemPrompt },
           { role: 'user', content: userPrompt }
         ],
-        max_tokens: Math.max(60, Math.min(140, Math.ceil(maxChars * 0.6))),
-        temperature: 0.7,
+        maxTokens: generation.maxTokens ?? Math.max(60, Math.min(140, Math.ceil(maxChars * 0.6))),
+        temperature: generation.temperature,
       });
 
-      let summary = response.choices?.[0]?.message?.content?.trim() || '';
+      let summary = response.trim();
       if (!summary) {
-        throw new ExternalServiceError('OpenAI', 'Empty summary');
+        throw new ExternalServiceError(provider.displayName, 'Empty summary');
       }
 
       // Enforce max length as final safeguard
@@ -300,11 +509,11 @@ export class OpenAIService {
         summary = summary.substring(0, Math.max(0, maxChars - 1)).trimEnd() + '…';
       }
 
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'success');
+      Metrics.recordOpenAIApiCall(generation.model, 'success');
       return summary;
     } catch (error) {
       Logger.error('summarizeForTweet failed', error as Error);
-      Metrics.recordOpenAIApiCall('gpt-4o-mini', 'error');
+      if (generation) Metrics.recordOpenAIApiCall(generation.model, 'error');
       // Fallback: simple truncation
       const safeMax = Math.max(10, maxChars);
       return longText.length > safeMax
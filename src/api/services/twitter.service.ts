@@ -60,10 +60,10 @@ export class TwitterService {
    * @param longText The text to summarize.
    * @returns A summary of the text, less than 140 characters.
    */
-  public async summarizeForTweet(longText: string, guildId: string): Promise<string> {
+  public async summarizeForTweet(longText: string, guildId: string, userId?: string): Promise<string> {
     const maxLen = this.getMaxLength();
     // Delegate to OpenAIService which resolves per-guild API keys and prompts
-    const summary = await this.openaiService.summarizeForTweet(longText, guildId, maxLen);
+    const summary = await this.openaiService.summarizeForTweet(longText, guildId, maxLen, userId);
     return summary.length > maxLen ? this.truncate(summary, maxLen) : summary;
   }
 
@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+import { Logger } from '../shared/logger';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+/**
+ * GitHub Webhook の X-Hub-Signature-256 の検証。
+ * GitHub が署名したのは送信したバイト列そのものなので、解析後の JSON を文字列化し直したものではなく受信した生の本文を渡すこと。
+ */
+export class WebhookSignature {
+  /**
+   * 有効な secret。ローテーション中は GITHUB_WEBHOOK_SECRET_PREVIOUS（以前の secret）でも受け付ける。
+   */
+  static getSecrets(): string[] {
+    return [process.env.GITHUB_WEBHOOK_SECRET, process.env.GITHUB_WEBHOOK_SECRET_PREVIOUS]
+      .filter((secret): secret is string => !!secret);
+  }
+
+  static sign(payload: Buffer | string, secret: string): string {
+    return SIGNATURE_PREFIX + crypto.createHmac('sha256', secret).update(payload).digest('hex');
+  }
+
+  static verify(payload: Buffer, signature: string | undefined, secrets: string[] = this.getSecrets()): boolean {
+    if (!signature || !signature.startsWith(SIGNATURE_PREFIX)) {
+      return false;
+    }
+    if (secrets.length === 0) {
+      Logger.error('GITHUB_WEBHOOK_SECRET not configured');
+      return false;
+    }
+
+    const received = Buffer.from(signature, 'utf8');
+    let matchedIndex = -1;
+    // どの secret で一致したかで処理時間が変わらないよう、一致しても残りの secret と比較する
+    secrets.forEach((secret, index) => {
+      const expected = Buffer.from(this.sign(payload, secret), 'utf8');
+      if (expected.length === received.length && crypto.timingSafeEqual(expected, received) && matchedIndex < 0) {
+        matchedIndex = index;
+      }
+    });
+
+    if (matchedIndex > 0) {
+      Logger.info('Webhook signature matched a previous secret; finish rotating GITHUB_WEBHOOK_SECRET');
+    }
+    return matchedIndex >= 0;
+  }
+}
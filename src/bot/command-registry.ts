@@ -2,6 +2,14 @@ import { REST } from '@discordjs/rest';
 import { Routes, APIApplicationCommand } from 'discord-api-types/v10';
 import { Logger } from '../shared/logger';
 
+export const SAVE_MESSAGE_COMMAND = 'Save to GitHub Issue';
+
+const LLM_OPERATION_CHOICES = [
+  { name: 'Issue要約', value: 'summary' },
+  { name: 'insert / article 整形', value: 'format' },
+  { name: 'ツイート要約', value: 'tweet' }
+];
+
 // Central command definitions (must match InteractionHandler)
 const commands: Partial<APIApplicationCommand>[] = [
   {
@@ -11,8 +19,21 @@ const commands: Partial<APIApplicationCommand>[] = [
       {
         type: 1, // SUB_COMMAND
         name: 'text',
-        description: '直後の発言をIssue化します',
-        options: []
+        description: '入力フォームからIssueを作成します',
+        options: [
+          { name: 'next_message', type: 5, description: 'フォームではなく直後の発言を取り込む（4000字を超える長文向け）', required: false }
+        ]
+      },
+      {
+        type: 1, // SUB_COMMAND
+        name: 'thread',
+        description: 'スレッド全体（または直近N件・ID範囲）の会話を1つのIssueにまとめます',
+        options: [
+          { name: 'count', type: 4, description: '直近N件のメッセージのみ対象にする', required: false, min_value: 1, max_value: 500 },
+          { name: 'from', type: 3, description: '開始メッセージID（このメッセージを含む）', required: false },
+          { name: 'to', type: 3, description: '終了メッセージID（このメッセージを含む。省略時は最新）', required: false },
+          { name: 'summarize', type: 5, description: 'AIで要約する（既定: true）', required: false }
+        ]
       }
     ]
   },
@@ -29,7 +50,8 @@ const commands: Partial<APIApplicationCommand>[] = [
           { name: 'PREP', value: 'prep' },
           { name: 'PAS', value: 'pas' }
         ]
-      }
+      },
+      { name: 'next_message', type: 5, description: 'フォームではなく直後の発言を取り込む（4000字を超える長文向け）', required: false }
     ]
   },
   {
@@ -47,18 +69,91 @@ const commands: Partial<APIApplicationCommand>[] = [
     name: 'config',
     description: '設定（OpenAIキー/Repo紐付けなど）',
     options: [
-      { type: 1, name: 'openai_key', description: 'OpenAI APIキーを保存', options: [
-        { name: 'key', type: 3, description: 'sk- で始まるAPIキー', required: true }
+      { type: 1, name: 'openai_key', description: 'LLM の APIキーを保存（OpenAI / Azure / Anthropic）', options: [
+        { name: 'key', type: 3, description: 'APIキー（/config llm で選んだプロバイダのもの）', required: true }
       ]},
       { type: 1, name: 'status', description: '設定状況を表示' },
+      { type: 1, name: 'llm', description: '要約・整形に使う LLM プロバイダ / モデルを設定', options: [
+        { name: 'provider', type: 3, description: 'プロバイダ', required: true, choices: [
+          { name: 'OpenAI', value: 'openai' },
+          { name: 'Azure OpenAI', value: 'azure' },
+          { name: 'Anthropic', value: 'anthropic' },
+          { name: 'OpenAI互換（Ollama / llama.cpp など）', value: 'openai_compatible' }
+        ]},
+        { name: 'model', type: 3, description: 'モデル名（Azure はデプロイ名）。例: gpt-4o-mini / llama3.1', required: false },
+        { name: 'base_url', type: 3, description: 'API の URL（Azure はエンドポイント）。例: http://localhost:11434/v1', required: false }
+      ]},
       { type: 1, name: 'delete_openai', description: 'OpenAI APIキーを削除' },
       { type: 1, name: 'test_openai', description: 'OpenAI キー疎通テスト' },
-      { type: 1, name: 'repo', description: 'GitHub リポジトリ紐付け（例: name=owner/repo, installation=GitHub App のインストールID）', options: [
-        { name: 'name', type: 3, description: 'Issueを作成するリポジトリ (owner/repo)。例: ame00000/githubapps', required: true },
-        { name: 'installation', type: 3, description: 'GitHub App のインストールID。例: 12345678（取得: App設定→InstallationsのURL末尾）', required: true }
+      { type: 1, name: 'repo', description: 'GitHub リポジトリ紐付け（候補から選択。installation は省略するとリポジトリから判定）', options: [
+        { name: 'name', type: 3, description: 'Issueを作成するリポジトリ (owner/repo)。入力すると候補を表示', required: true, autocomplete: true },
+        { name: 'installation', type: 3, description: 'GitHub App のインストールID（省略時はこのサーバーに紐付け済みのものを使う）', required: false, autocomplete: true }
       ]},
-      { type: 1, name: 'repo_help', description: 'repo 設定の入力方法を表示' }
+      { type: 1, name: 'connect', description: 'GitHub App をインストールしてこのサーバーに自動で紐付け' },
+      { type: 1, name: 'repo_help', description: 'repo 設定の入力方法を表示' },
+      { type: 1, name: 'save_mode', description: '保存モードを設定（Issue / コミット / 両方 / Pull Request）', options: [
+        { name: 'mode', type: 3, description: '保存モード', required: true, choices: [
+          { name: 'Issue', value: 'issue' },
+          { name: 'コミット', value: 'commit' },
+          { name: 'Issue + コミット', value: 'both' },
+          { name: 'Pull Request（ブランチを作成）', value: 'pr' }
+        ]},
+        { name: 'path', type: 3, description: 'コミット先パス。例: Writing/{yyyyMMddHHmm}.md（使用可: {yyyy} {MM} {dd} {HH} {mm} {file_name}）', required: false },
+        { name: 'branch', type: 3, description: 'コミット先ブランチ（PRモードではベースブランチ。省略時は既定ブランチ）', required: false },
+        { name: 'front_matter', type: 5, description: '要約を front matter として付与する（既定: true）', required: false },
+        { name: 'channel', type: 7, description: '指定したチャンネルのみに保存モードを適用（path / branch / front_matter とは併用不可）', required: false }
+      ]},
+      { type: 2, name: 'model', description: '処理ごとのモデル・生成設定', options: [
+        { type: 1, name: 'set', description: '処理ごとのモデル / temperature / max_tokens を設定', options: [
+          { name: 'operation', type: 3, description: '対象の処理', required: true, choices: LLM_OPERATION_CHOICES },
+          { name: 'model', type: 3, description: 'モデル名（省略時は /config llm のモデル）', required: false },
+          { name: 'temperature', type: 10, description: '0〜2（既定: 要約・整形 0.5 / ツイート 0.7）', required: false, min_value: 0, max_value: 2 },
+          { name: 'max_tokens', type: 4, description: '最大出力トークン数', required: false, min_value: 1, max_value: 32768 }
+        ]},
+        { type: 1, name: 'reset', description: '処理ごとの設定を既定値に戻す', options: [
+          { name: 'operation', type: 3, description: '対象の処理（省略ですべて）', required: false, choices: LLM_OPERATION_CHOICES }
+        ]}
+      ]},
+      { type: 2, name: 'channel', description: 'チャンネルごとの保存先・設定', options: [
+        { type: 1, name: 'repo', description: 'チャンネルの保存先リポジトリ・保存モード・ラベル・要約を設定（省略した項目は変更なし）', options: [
+          { name: 'name', type: 3, description: '保存先のリポジトリ (owner/repo)。サーバーの installation からアクセスできるもの', required: false, autocomplete: true },
+          { name: 'channel', type: 7, description: '対象のチャンネル（省略時はこのチャンネル）', required: false },
+          { name: 'save_mode', type: 3, description: '保存モード', required: false, choices: [
+            { name: 'Issue', value: 'issue' },
+            { name: 'コミット', value: 'commit' },
+            { name: 'Issue + コミット', value: 'both' },
+            { name: 'Pull Request（ブランチを作成）', value: 'pr' }
+          ]},
+          { name: 'labels', type: 3, description: '必ず付けるラベル（カンマ区切り）', required: false },
+          { name: 'summarize', type: 5, description: 'AI 要約を行う（既定: true）', required: false }
+        ]},
+        { type: 1, name: 'clear', description: 'チャンネルの設定を削除してサーバーの既定に戻す', options: [
+          { name: 'channel', type: 7, description: '対象のチャンネル（省略時はこのチャンネル）', required: false }
+        ]},
+        { type: 1, name: 'list', description: 'チャンネルごとの設定を一覧表示' }
+      ]},
+      { type: 1, name: 'usage', description: '今月の LLM トークン使用量と概算費用を表示' },
+      { type: 1, name: 'budget', description: 'LLM の月間上限とユーザーごとの回数制限を設定（0 で解除、省略で変更なし）', options: [
+        { name: 'tokens', type: 4, description: '月間トークン上限（入力 + 出力）', required: false, min_value: 0 },
+        { name: 'cost_usd', type: 10, description: '月間の概算費用の上限（USD）', required: false, min_value: 0 },
+        { name: 'user_hourly', type: 4, description: 'ユーザーごとの1時間あたりの呼び出し回数', required: false, min_value: 0 }
+      ]},
+      { type: 1, name: 'admin_channel', description: '管理用の通知チャンネルを設定（リポジトリのアクセス解除などを通知。省略で解除）', options: [
+        { name: 'channel', type: 7, description: '通知先のチャンネル', required: false }
+      ]},
+      { type: 1, name: 'confirm', description: '作成前にプレビューを表示し、確認してから公開する', options: [
+        { name: 'enabled', type: 5, description: '有効にする（既定: 無効）', required: true }
+      ]},
+      { type: 1, name: 'title_template', description: 'Issueタイトルのテンプレートを設定（省略で既定値に戻す）', options: [
+        { name: 'template', type: 3, description: '例: {date} {ai_title}（使用可: {date} {ai_title} {file_name}）', required: false }
+      ]}
     ]
+  },
+  {
+    // メッセージの右クリックメニュー（Apps → Save to GitHub Issue）
+    name: SAVE_MESSAGE_COMMAND,
+    name_localizations: { ja: 'GitHub Issueに保存' },
+    type: 3 // MESSAGE
   }
 ];
 
@@ -6,12 +6,18 @@ import { MessageHandler } from './handlers/message';
 import { InteractionHandler } from './handlers/interaction-handler';
 import { ReactionHandler } from './handlers/reaction-handler';
 import { syncSlashCommands } from './command-registry';
+import { PendingInputs } from './pending-inputs';
+import { PublishConfirmation } from './publish-confirmation';
+import { UploadQueue } from './upload-queue';
+import { GitHubService } from '../api/services/github.service';
+import { OpenAIService } from '../api/services/openai.service';
 
 export class DiscordBot {
   private client: Client;
   private messageHandler: MessageHandler;
   private interactionHandler: InteractionHandler;
   private reactionHandler: ReactionHandler;
+  private pendingInputSweeper: NodeJS.Timeout | undefined;
 
   constructor() {
     this.client = new Client({
@@ -38,6 +44,14 @@ export class DiscordBot {
       if ((process.env.COMMAND_AUTO_REGISTER || 'true').toLowerCase() !== 'false') {
         syncSlashCommands().catch(err => Logger.error('Command sync failed', err as Error));
       }
+      const githubService = new GitHubService();
+      // 期限切れの入力待ち（/issue text・/insert）を定期的に解除して通知
+      this.pendingInputSweeper = setInterval(() => {
+        PendingInputs.sweepExpired(this.client).catch(err => Logger.error('Pending input sweep failed', err as Error));
+        PublishConfirmation.pruneExpired(githubService).catch(err => Logger.error('Pending publish prune failed', err as Error));
+      }, 30000);
+      // 前回の起動中に残ったジョブも含めてアップロードキューの処理を始める
+      UploadQueue.start(readyClient, githubService, new OpenAIService()).catch(err => Logger.error('Upload queue start failed', err as Error));
     });
 
     this.client.on(Events.MessageCreate, async (message) => {
@@ -139,6 +153,9 @@ export class DiscordBot {
   async stop(): Promise<void> {
     try {
       Logger.info('Stopping Discord bot...');
+      if (this.pendingInputSweeper) clearInterval(this.pendingInputSweeper);
+      // 実行中のジョブが結果を書き込み終えてから切断する
+      await UploadQueue.stop();
       this.client.destroy();
       Metrics.setActiveConnections('discord', 0);
       Logger.info('Discord bot stopped successfully');
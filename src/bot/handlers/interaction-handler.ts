@@ -1,23 +1,71 @@
 
-import { Interaction, CommandInteraction, Attachment, CacheType, ChatInputCommandInteraction } from 'discord.js';
+import {
+  Interaction,
+  AutocompleteInteraction,
+  CommandInteraction,
+  Attachment,
+  CacheType,
+  ChatInputCommandInteraction,
+  MessageContextMenuCommandInteraction,
+  ButtonInteraction,
+  ModalSubmitInteraction,
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle,
+  GuildTextBasedChannel,
+  Message,
+  RepliableInteraction
+} from 'discord.js';
 import { Logger } from '../../shared/logger';
 import { ErrorHandler, ValidationError } from '../../shared/error-handler';
 import { Metrics } from '../../shared/metrics';
-import { GitHubService } from '../../api/services/github.service';
+import { GitHubService, GitHubUploadResult, UploadOptions, getUploadResultLabel } from '../../api/services/github.service';
 import { TwitterService } from '../../api/services/twitter.service';
 import { OpenAIService } from '../../api/services/openai.service';
 import { FileProcessorService } from '../../api/services/file-processor.service';
 import { ConfigService } from '../../api/services/config.service';
+import { InstallState, INSTALL_STATE_TTL_SECONDS } from '../../api/install-state';
 import { FileUtils } from '../../shared/file-utils';
 import { SecretStore, SECRET_KEYS, maskKey } from '../../shared/secret-store';
-import { ProcessedFile } from '../../shared/types';
+import { UsageTracker, UsageTotals } from '../../shared/usage-tracker';
+import {
+  LLMProviderFactory,
+  LLMProviderName,
+  getDefaultModel,
+  getProviderDisplayName
+} from '../../api/services/llm-provider';
+import { GuildMapping, LLMBudget, LLMOperation, LLMOperationSettings, ProcessedFile, SaveMode } from '../../shared/types';
+import { SAVE_MESSAGE_COMMAND } from '../command-registry';
+import { MessageFormatter } from '../message-formatter';
+import { PendingInputs, PENDING_CANCEL_BUTTON_ID } from '../pending-inputs';
+import { UploadFormat, UploadQueue, UploadReplyTarget } from '../upload-queue';
+import {
+  PublishConfirmation,
+  PublishAction,
+  PublishEdit,
+  PUBLISH_BUTTON_PREFIX,
+  PUBLISH_EDIT_MODAL_PREFIX
+} from '../publish-confirmation';
 import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 
-// 入力待ち状態管理用のMap（グローバルで仮実装）
-export const issueTextWaitMap = new Map<string, string>(); // userId -> channelId
-export const insertTextWaitMap = new Map<string, { channelId: string, style: 'prep' | 'pas' }>(); // userId -> { channelId, style }
+type ChannelMapping = NonNullable<GuildMapping['channels']>[number];
+
+// 右クリックメニューからの保存先選択ボタン: save_message:<issue|prep|pas|gist>:<messageId>
+const SAVE_MESSAGE_BUTTON_PREFIX = 'save_message:';
+type SaveMessageTarget = 'issue' | 'prep' | 'pas' | 'gist';
+
+// /issue text・/insert の入力フォーム: text_input:issue / text_input:insert:<prep|pas>
+const TEXT_INPUT_MODAL_PREFIX = 'text_input:';
+const MODAL_BODY_MAX_LENGTH = 4000;
+
+// /issue thread で1回に取り込むメッセージ数と走査数の上限
+const MAX_THREAD_MESSAGES = 500;
+const MAX_THREAD_SCAN = 1000;
 
 export class InteractionHandler {
   private githubService: GitHubService;
@@ -36,12 +84,49 @@ export class InteractionHandler {
   }
 
   async handleInteraction(interaction: Interaction): Promise<void> {
+    if (interaction.isButton()) {
+      if (interaction.customId.startsWith(SAVE_MESSAGE_BUTTON_PREFIX)) {
+        await this.handleSaveMessageButton(interaction);
+      } else if (interaction.customId === PENDING_CANCEL_BUTTON_ID) {
+        await this.handlePendingCancelButton(interaction);
+      } else if (interaction.customId.startsWith(PUBLISH_BUTTON_PREFIX)) {
+        await this.handlePublishButton(interaction);
+      }
+      return;
+    }
+
+    if (interaction.isModalSubmit()) {
+      if (interaction.customId.startsWith(TEXT_INPUT_MODAL_PREFIX)) {
+        await this.handleTextInputModal(interaction);
+      } else if (interaction.customId.startsWith(PUBLISH_EDIT_MODAL_PREFIX)) {
+        await this.handlePublishEditModal(interaction);
+      }
+      return;
+    }
+
+    if (interaction.isAutocomplete()) {
+      await this.handleAutocomplete(interaction);
+      return;
+    }
+
+    if (interaction.isMessageContextMenuCommand()) {
+      if (interaction.commandName === SAVE_MESSAGE_COMMAND) {
+        await this.handleSaveMessageCommand(interaction);
+      }
+      return;
+    }
+
     if (!interaction.isCommand()) return;
 
     const { commandName } = interaction;
 
     if (commandName === 'issue') {
-      await this.handleIssueTextCommand(interaction as ChatInputCommandInteraction);
+      const sub = (interaction as ChatInputCommandInteraction).options.getSubcommand(false);
+      if (sub === 'thread') {
+        await this.handleIssueThreadCommand(interaction as ChatInputCommandInteraction);
+      } else {
+        await this.handleIssueTextCommand(interaction as ChatInputCommandInteraction);
+      }
     } else if (commandName === 'insert') {
       await this.handleInsertCommand(interaction as ChatInputCommandInteraction);
     } else if (commandName === 'article') {
@@ -53,14 +138,208 @@ export class InteractionHandler {
 
 
 
+  // /config repo・/config channel repo のリポジトリ / installation の候補
+  private async handleAutocomplete(interaction: AutocompleteInteraction): Promise<void> {
+    try {
+      if (interaction.commandName !== 'config' || !interaction.guildId || !interaction.memberPermissions?.has('ManageGuild')) {
+        await interaction.respond([]);
+        return;
+      }
+
+      const focused = interaction.options.getFocused(true);
+      const query = focused.value.trim().toLowerCase();
+      let choices: Array<{ name: string; value: string }> = [];
+
+      if (focused.name === 'installation') {
+        const installations = await this.configService.listSelectableInstallations(interaction.guildId);
+        choices = installations.map(installation => ({
+          name: `${installation.account.login || 'unknown'}（${installation.installation_id}）`,
+          value: String(installation.installation_id),
+        }));
+      } else if (focused.name === 'name') {
+        let installationIds: string[];
+        if (interaction.options.getSubcommandGroup(false) === 'channel') {
+          // チャンネル別の指定はサーバーに紐付けた installation のリポジトリだけ
+          const mapping = await FileUtils.getGuildMapping(interaction.guildId);
+          installationIds = mapping ? [String(mapping.installation_id)] : [];
+        } else {
+          // 入力済みの installation があればそのリポジトリだけ（選べない installation のリポジトリは出さない）
+          const selected = interaction.options.getString('installation')?.trim();
+          const selectable = (await this.configService.listSelectableInstallations(interaction.guildId))
+            .map(installation => String(installation.installation_id));
+          installationIds = selected ? selectable.filter(id => id === selected) : selectable;
+        }
+
+        const repoLists = await Promise.all(installationIds.map(installationId =>
+          this.configService.listInstallationRepos(installationId).catch(error => {
+            Logger.warn('Failed to list installation repositories', { installationId, error: (error as Error).message });
+            return [] as string[];
+          })
+        ));
+        choices = Array.from(new Set(repoLists.flat())).map(repo => ({ name: repo, value: repo }));
+      }
+
+      // Discord の候補は25件まで
+      await interaction.respond(
+        choices.filter(choice => choice.name.toLowerCase().includes(query)).slice(0, 25)
+      );
+    } catch (error) {
+      Logger.error('Autocomplete failed', error as Error, { guildId: interaction.guildId, commandName: interaction.commandName });
+      await interaction.respond([]).catch(() => undefined);
+    }
+  }
+
+  private async handleSaveMessageCommand(interaction: MessageContextMenuCommandInteraction): Promise<void> {
+    try {
+      if (!interaction.guild) {
+        throw new ValidationError('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const target = interaction.targetMessage;
+      if (!target.content.trim() && target.attachments.size === 0) {
+        throw new ValidationError('保存できる本文や添付ファイルがないメッセージです。');
+      }
+
+      const button = (kind: SaveMessageTarget, label: string, style: ButtonStyle) =>
+        new ButtonBuilder()
+          .setCustomId(`${SAVE_MESSAGE_BUTTON_PREFIX}${kind}:${target.id}`)
+          .setLabel(label)
+          .setStyle(style);
+
+      const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        button('issue', 'Issue', ButtonStyle.Primary),
+        button('prep', '記事（PREP）', ButtonStyle.Secondary),
+        button('pas', '記事（PAS）', ButtonStyle.Secondary),
+        button('gist', 'Gist', ButtonStyle.Secondary)
+      );
+
+      await interaction.reply({
+        content: `💾 ${MessageFormatter.formatAuthor(target)} のメッセージをどの形式で保存しますか？`,
+        components: [row],
+        ephemeral: true
+      });
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'save_message_command',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply(`❌ ${ErrorHandler.getErrorMessage(error as Error)}`);
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
+  private async handleSaveMessageButton(interaction: ButtonInteraction): Promise<void> {
+    try {
+      if (!interaction.guild || !interaction.channel) {
+        throw new ValidationError('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const [kind, messageId] = interaction.customId.slice(SAVE_MESSAGE_BUTTON_PREFIX.length).split(':') as [SaveMessageTarget, string];
+      await interaction.update({ content: '⏳ 保存しています...', components: [] });
+
+      const message = await interaction.channel.messages.fetch(messageId);
+      const idempotencyKey = `discord-message:${message.id}:${kind}`;
+
+      const messageFile = MessageFormatter.toProcessedFile(message);
+      let processedFile = messageFile;
+      let format: UploadFormat | undefined;
+
+      // 整形（LLM）はキューで行い、元のメッセージの後ろに整形された文章を足す
+      if (kind === 'prep' || kind === 'pas') {
+        if (!message.content.trim()) {
+          throw new ValidationError('記事に整形できる本文がありません。');
+        }
+        const original = `# 📝 元のメッセージ\n\n${messageFile.content}`;
+        processedFile = {
+          original_name: `message-${kind}-formatted.md`,
+          content: original,
+          size: Buffer.byteLength(original, 'utf-8'),
+          type: 'markdown'
+        };
+        format = { style: kind, text: message.content };
+      }
+
+      // 選択ボタン自体が ephemeral なので、その返信に進捗を出し、確認モードではプレビューに差し替える。
+      // 元メッセージの投稿者にも保存されたことが分かるよう、完了時は元メッセージにも返信する
+      const guildId = interaction.guild.id;
+      const queued = await UploadQueue.enqueueOnce(this.githubService, idempotencyKey, async () => {
+        await interaction.editReply('⏳ 受け付けました。保存が終わるまでお待ちください...');
+        return {
+          guildId,
+          channelId: message.channel.id,
+          userId: interaction.user.id,
+          file: processedFile,
+          options: {
+            skipSummary: kind === 'prep' || kind === 'pas',
+            forceGist: kind === 'gist',
+            idempotencyKey
+          },
+          reply: this.getUploadReplyTarget(interaction, true),
+          completion: { type: 'created' },
+          sourceMessageId: message.id,
+          announceOnSource: true,
+          ...(format ? { format } : {})
+        };
+      }, interaction.token);
+      if (!queued) {
+        const previous = await this.githubService.findProcessedUpload(idempotencyKey);
+        await interaction.editReply(previous
+          ? `ℹ️ このメッセージは既に ${getUploadResultLabel(previous)} に保存されています: ${previous.url}`
+          : 'ℹ️ このメッセージは保存の処理中か、公開前の確認を待っています。');
+      }
+
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'save_message',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      Metrics.recordDiscordMessage(interaction.guild?.id || 'unknown', 'error');
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply(`❌ ${ErrorHandler.getErrorMessage(error as Error)}`);
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
   private async handleIssueTextCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     try {
       if (!interaction.guild) {
         throw new ValidationError('このコマンドはサーバー内でのみ使用できます。');
       }
-      // 入力待ち状態に登録
-      issueTextWaitMap.set(interaction.user.id, interaction.channelId);
-      await interaction.reply({ content: '✏️ 次の発言をIssueとして処理します。テキストを入力してください。', ephemeral: true });
+
+      if (!interaction.options.getBoolean('next_message')) {
+        await interaction.showModal(this.buildTextInputModal(`${TEXT_INPUT_MODAL_PREFIX}issue`, 'Issueを作成'));
+        return;
+      }
+
+      // 長文向け: 入力待ち状態に登録し、次の発言を MessageHandler で取り込む
+      await PendingInputs.begin({
+        kind: 'issue_text',
+        guildId: interaction.guild.id,
+        channelId: interaction.channelId,
+        userId: interaction.user.id,
+        applicationId: interaction.applicationId,
+        interactionToken: interaction.token
+      });
+      await interaction.reply({
+        content: `✏️ 次の発言をIssueとして処理します。テキストを入力してください。（${this.formatPendingTtl()}以内）`,
+        components: [this.buildPendingCancelRow()],
+        ephemeral: true
+      });
     } catch (error) {
       const guildId = interaction.guild?.id;
       const channelId = interaction.channelId;
@@ -79,6 +358,426 @@ export class InteractionHandler {
     }
   }
 
+  private buildTextInputModal(customId: string, title: string): ModalBuilder {
+    const titleInput = new TextInputBuilder()
+      .setCustomId('title')
+      .setLabel('タイトル（任意）')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(100);
+    const bodyInput = new TextInputBuilder()
+      .setCustomId('body')
+      .setLabel('本文')
+      .setStyle(TextInputStyle.Paragraph)
+      .setRequired(true)
+      .setMaxLength(MODAL_BODY_MAX_LENGTH);
+    const labelsInput = new TextInputBuilder()
+      .setCustomId('labels')
+      .setLabel('ラベル（任意・カンマ区切り）')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setPlaceholder('idea, memo')
+      .setMaxLength(200);
+
+    return new ModalBuilder()
+      .setCustomId(customId)
+      .setTitle(title)
+      .addComponents(
+        new ActionRowBuilder<TextInputBuilder>().addComponents(titleInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(bodyInput),
+        new ActionRowBuilder<TextInputBuilder>().addComponents(labelsInput)
+      );
+  }
+
+  private async handleTextInputModal(interaction: ModalSubmitInteraction): Promise<void> {
+    try {
+      if (!interaction.guild || !interaction.channelId) {
+        throw new ValidationError('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const [kind, style] = interaction.customId.slice(TEXT_INPUT_MODAL_PREFIX.length).split(':');
+      const body = interaction.fields.getTextInputValue('body');
+      const title = interaction.fields.getTextInputValue('title').trim();
+      const labels = this.parseLabelInput(interaction.fields.getTextInputValue('labels'));
+      if (!body.trim()) {
+        throw new ValidationError('本文を入力してください。');
+      }
+
+      const uploadOptions: UploadOptions = {
+        ...(title ? { title } : {}),
+        ...(labels.length > 0 ? { labels } : {}),
+      };
+
+      // 確認モードではプレビューを本人にだけ見せる
+      const confirm = await PublishConfirmation.isRequired(interaction.guild.id);
+      await interaction.deferReply({ ephemeral: confirm });
+
+      let processedFile: ProcessedFile;
+      let format: UploadFormat | undefined;
+      if (kind === 'insert') {
+        // 整形（LLM）はキューで行い、元の文章の後ろに整形された文章を足す
+        const insertStyle = style === 'pas' ? 'pas' : 'prep';
+        const original = `# 📝 元の文章\n\n${body}`;
+        processedFile = {
+          original_name: `insert-${insertStyle}-formatted.md`,
+          content: original,
+          size: Buffer.byteLength(original, 'utf-8'),
+          type: 'markdown'
+        };
+        format = { style: insertStyle, text: body };
+      } else {
+        processedFile = {
+          original_name: 'issue-from-text.md',
+          content: body,
+          size: Buffer.byteLength(body, 'utf-8'),
+          type: 'markdown'
+        };
+      }
+
+      await interaction.editReply('⏳ 受け付けました。Issue を作成しています...');
+      await UploadQueue.enqueue({
+        guildId: interaction.guild.id,
+        channelId: interaction.channelId,
+        userId: interaction.user.id,
+        file: processedFile,
+        // insert は整形済みなので要約をスキップ
+        options: {
+          ...uploadOptions,
+          ...(format ? { skipSummary: true } : {}),
+          idempotencyKey: `discord-interaction:${interaction.id}`
+        },
+        reply: this.getUploadReplyTarget(interaction, confirm),
+        completion: format
+          ? { type: 'formatted', heading: '✅ Markdown整形完了 & Issue作成' }
+          : { type: 'created' },
+        ...(format ? { format } : {})
+      }, interaction.token);
+
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'text_input_modal',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      Metrics.recordDiscordMessage(interaction.guild?.id || 'unknown', 'error');
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply(`❌ ${ErrorHandler.getErrorMessage(error as Error)}`);
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
+  private async handlePublishButton(interaction: ButtonInteraction): Promise<void> {
+    try {
+      const [action, id] = interaction.customId.slice(PUBLISH_BUTTON_PREFIX.length).split(':') as [PublishAction, string];
+      const pending = await PublishConfirmation.get(id);
+      if (!pending) {
+        await interaction.update({ content: '⌛ このプレビューは期限切れか、既に処理されています。', embeds: [], components: [] });
+        return;
+      }
+      if (pending.prepared.userId !== interaction.user.id) {
+        await interaction.reply({ content: '⚠️ この操作は作成したユーザーのみ行えます。', ephemeral: true });
+        return;
+      }
+
+      if (action === 'edit') {
+        const preview = await this.githubService.buildPreview(pending.prepared);
+        await interaction.showModal(PublishConfirmation.buildEditModal(id, pending, preview));
+        return;
+      }
+
+      // 二重クリックで重複作成しないよう、先に公開待ちから取り除く
+      const taken = await PublishConfirmation.take(id);
+      if (!taken) {
+        await interaction.update({ content: '⌛ このプレビューは既に処理されています。', embeds: [], components: [] });
+        return;
+      }
+      if (action === 'cancel') {
+        await PublishConfirmation.discard(this.githubService, taken);
+        await interaction.update({ content: '🚫 公開をキャンセルしました。', embeds: [], components: [] });
+        return;
+      }
+
+      await interaction.update({ content: '⏳ 作成しています...', embeds: [], components: [] });
+      const { prepared } = taken;
+      let result: GitHubUploadResult;
+      try {
+        result = await this.githubService.publishUpload(prepared, {
+          steps: taken.steps ??= {},
+          save: async () => undefined,
+        });
+      } catch (error) {
+        // プレビューを公開待ちに戻し、同じボタンで再試行・キャンセルできるようにする（claim は期限切れまで保持）
+        const preview = await PublishConfirmation.restore(this.githubService, id, taken);
+        await ErrorHandler.handleError(error as Error, {
+          userId: interaction.user.id,
+          operation: 'publish_confirmation',
+          guildId: prepared.guildId,
+          channelId: prepared.channelId,
+        });
+        Metrics.recordDiscordMessage(prepared.guildId, 'error');
+        await interaction.editReply({
+          ...preview,
+          content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}\n${preview.content}`,
+          allowedMentions: { parse: [] }
+        });
+        return;
+      }
+      const label = getUploadResultLabel(result);
+
+      const reply = await interaction.editReply(`✅ ${label} created: ${result.url}`);
+      // ephemeral の返信には GitHub 側のコメントを返信できないので、その場合はチャンネルへのお知らせと紐付ける
+      let announcement: Message | null = taken.ephemeral ? null : reply;
+      if (taken.ephemeral) {
+        // 作成は済んでいるので、チャンネルへのお知らせに失敗しても上の ✅ は ❌ で上書きしない
+        try {
+          announcement = await interaction.followUp({
+            content: `📎 ${interaction.user} が ${label} を作成しました: ${result.url}`,
+            allowedMentions: { parse: [] }
+          });
+        } catch (error) {
+          Logger.warn('Failed to announce published upload', {
+            guildId: prepared.guildId,
+            url: result.url,
+            error: (error as Error).message
+          });
+        }
+      }
+      if (announcement) {
+        await this.githubService.recordDiscordLink(result, {
+          guildId: prepared.guildId,
+          channelId: prepared.channelId,
+          messageId: announcement.id,
+          ...(taken.sourceMessageId ? { sourceMessageId: taken.sourceMessageId } : {})
+        });
+      }
+      Metrics.recordDiscordMessage(prepared.guildId, 'success');
+
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'publish_confirmation',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      Metrics.recordDiscordMessage(interaction.guild?.id || 'unknown', 'error');
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, embeds: [], components: [] });
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
+  private async handlePublishEditModal(interaction: ModalSubmitInteraction): Promise<void> {
+    try {
+      const id = interaction.customId.slice(PUBLISH_EDIT_MODAL_PREFIX.length);
+      const pending = await PublishConfirmation.get(id);
+      if (!pending || pending.prepared.userId !== interaction.user.id) {
+        throw new ValidationError('このプレビューは期限切れか、既に処理されています。');
+      }
+
+      const edit: PublishEdit = {
+        title: interaction.fields.getTextInputValue('title').trim(),
+        labels: this.parseLabelInput(interaction.fields.getTextInputValue('labels')),
+        ...(interaction.fields.fields.has('body') ? { body: interaction.fields.getTextInputValue('body') } : {}),
+      };
+      const payload = await PublishConfirmation.applyEdit(this.githubService, id, pending, edit);
+
+      if (interaction.isFromMessage()) {
+        await interaction.update(payload);
+      } else {
+        await interaction.reply({ ...payload, ephemeral: true });
+      }
+
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'publish_edit',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply(`❌ ${ErrorHandler.getErrorMessage(error as Error)}`);
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
+  private parseLabelInput(input: string): string[] {
+    const labels = input
+      .split(/[,、]/)
+      .map(label => label.trim())
+      .filter(label => label.length > 0);
+    return Array.from(new Set(labels));
+  }
+
+  private async handlePendingCancelButton(interaction: ButtonInteraction): Promise<void> {
+    const cancelled = await PendingInputs.cancel(interaction.user.id);
+    await interaction.update({
+      content: cancelled ? '🚫 入力待ちをキャンセルしました。' : '⌛ 入力待ちは既に終了しています。',
+      components: []
+    });
+  }
+
+  private buildPendingCancelRow(): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(PENDING_CANCEL_BUTTON_ID)
+        .setLabel('キャンセル')
+        .setStyle(ButtonStyle.Secondary)
+    );
+  }
+
+  private formatPendingTtl(): string {
+    const seconds = PendingInputs.getTtlSeconds();
+    return seconds % 60 === 0 ? `${seconds / 60}分` : `${seconds}秒`;
+  }
+
+  private async handleIssueThreadCommand(interaction: ChatInputCommandInteraction): Promise<void> {
+    try {
+      if (!interaction.guild || !interaction.channel || interaction.channel.isDMBased()) {
+        throw new ValidationError('このコマンドはサーバー内でのみ使用できます。');
+      }
+
+      const channel = interaction.channel;
+      const count = interaction.options.getInteger('count');
+      const from = interaction.options.getString('from')?.trim() || null;
+      const to = interaction.options.getString('to')?.trim() || null;
+      const summarize = interaction.options.getBoolean('summarize') ?? true;
+
+      for (const id of [from, to]) {
+        if (id && !/^\d{17,20}$/.test(id)) {
+          throw new ValidationError('from / to にはメッセージIDを指定してください（メッセージを右クリック → IDをコピー）。');
+        }
+      }
+      if (from && to && BigInt(from) > BigInt(to)) {
+        throw new ValidationError('from には to より前のメッセージIDを指定してください。');
+      }
+      if (!channel.isThread() && !count && !from) {
+        throw new ValidationError('スレッド外では count または from を指定してください。');
+      }
+
+      const confirm = await PublishConfirmation.isRequired(interaction.guild.id);
+      await interaction.deferReply({ ephemeral: confirm });
+
+      const { messages, truncated } = await this.collectMessages(channel, { count, from, to, botId: interaction.client.user.id });
+      if (messages.length === 0) {
+        throw new ValidationError('対象となるメッセージが見つかりませんでした。');
+      }
+
+      const title = channel.isThread() ? `スレッド: ${channel.name}` : `#${channel.name} の会話`;
+      const transcript = MessageFormatter.formatTranscript(messages, title, channel.url);
+      const transcriptFile: ProcessedFile = {
+        original_name: `discord-${channel.isThread() ? 'thread' : 'channel'}-${channel.id}.md`,
+        content: transcript,
+        size: Buffer.byteLength(transcript, 'utf-8'),
+        type: 'markdown'
+      };
+
+      await interaction.editReply(`⏳ ${messages.length}件のメッセージを受け付けました。まとめています...`);
+      await UploadQueue.enqueue({
+        guildId: interaction.guild.id,
+        channelId: interaction.channelId,
+        userId: interaction.user.id,
+        file: transcriptFile,
+        options: { skipSummary: !summarize, idempotencyKey: `discord-interaction:${interaction.id}` },
+        reply: this.getUploadReplyTarget(interaction, confirm),
+        completion: {
+          type: 'transcript',
+          messageCount: messages.length,
+          ...(truncated ? { truncated: true } : {})
+        }
+      }, interaction.token);
+
+    } catch (error) {
+      const guildId = interaction.guild?.id;
+      const channelId = interaction.channelId;
+      const context = {
+        userId: interaction.user.id,
+        operation: 'issue_thread_command',
+        ...(guildId ? { guildId } : {}),
+        ...(channelId ? { channelId } : {}),
+      };
+      await ErrorHandler.handleError(error as Error, context);
+      Metrics.recordDiscordMessage(interaction.guild?.id || 'unknown', 'error');
+      if (interaction.replied || interaction.deferred) {
+        await interaction.editReply(`❌ ${ErrorHandler.getErrorMessage(error as Error)}`);
+      } else {
+        await interaction.reply({ content: `❌ ${ErrorHandler.getErrorMessage(error as Error)}`, ephemeral: true });
+      }
+    }
+  }
+
+  /**
+   * 新しい順にページングしながらメッセージを集める。to 指定時はそのメッセージから遡り、
+   * from より古いメッセージに達した時点で止める。Bot 自身の発言とシステムメッセージは除外する。
+   * スレッドの先頭まで遡った場合は、親チャンネルにあるスレッドの開始メッセージも含める。
+   * 取り込み数・走査数の上限で打ち切った場合は truncated を返す（count で指定した件数に達した場合は除く）。
+   */
+  private async collectMessages(
+    channel: GuildTextBasedChannel,
+    options: { count: number | null; from: string | null; to: string | null; botId: string }
+  ): Promise<{ messages: Message[]; truncated: boolean }> {
+    const limit = Math.min(options.count ?? MAX_THREAD_MESSAGES, MAX_THREAD_MESSAGES);
+    const collected: Message[] = [];
+    const include = (message: Message) => !message.system && message.author.id !== options.botId;
+    let before: string | undefined;
+    let scanned = 0;
+    let reachedStart = false;
+    let exhausted = false;
+
+    if (options.to) {
+      const last = await channel.messages.fetch(options.to);
+      if (include(last)) collected.push(last);
+      before = last.id;
+    }
+
+    while (collected.length < limit && scanned < MAX_THREAD_SCAN) {
+      const batch = await channel.messages.fetch({ limit: 100, ...(before ? { before } : {}) });
+      if (batch.size === 0) {
+        exhausted = true;
+        break;
+      }
+
+      for (const message of batch.values()) {
+        scanned++;
+        if (options.from && BigInt(message.id) < BigInt(options.from)) {
+          reachedStart = true;
+          break;
+        }
+        if (include(message)) collected.push(message);
+        if (collected.length >= limit) break;
+      }
+
+      if (reachedStart) break;
+      before = batch.last()?.id;
+    }
+
+    // 開始メッセージはスレッドと同じ ID（フォーラムのスレッドではスレッド内にあるので取得済み）
+    if (channel.isThread() && exhausted && collected.length < limit
+      && (!options.from || BigInt(options.from) <= BigInt(channel.id))
+      && !collected.some(message => message.id === channel.id)) {
+      const starter = await channel.fetchStarterMessage().catch(() => null);
+      if (starter && include(starter)) collected.push(starter);
+    }
+
+    const complete = exhausted || reachedStart || (options.count !== null && collected.length >= options.count);
+    return { messages: collected, truncated: !complete };
+  }
+
   private async handleInsertCommand(interaction: ChatInputCommandInteraction): Promise<void> {
     try {
       if (!interaction.guild) {
@@ -86,16 +785,29 @@ export class InteractionHandler {
       }
       
       const style = interaction.options.getString('style', true) as 'prep' | 'pas';
+      const styleName = style === 'prep' ? 'PREP法' : 'PAS法';
+
+      if (!interaction.options.getBoolean('next_message')) {
+        await interaction.showModal(
+          this.buildTextInputModal(`${TEXT_INPUT_MODAL_PREFIX}insert:${style}`, `${styleName}で整形してIssueを作成`)
+        );
+        return;
+      }
       
-      // 入力待ち状態に登録
-      insertTextWaitMap.set(interaction.user.id, {
+      // 長文向け: 入力待ち状態に登録
+      await PendingInputs.begin({
+        kind: 'insert',
+        guildId: interaction.guild.id,
         channelId: interaction.channelId,
-        style: style
+        userId: interaction.user.id,
+        style,
+        applicationId: interaction.applicationId,
+        interactionToken: interaction.token
       });
       
-      const styleName = style === 'prep' ? 'PREP法' : 'PAS法';
       await interaction.reply({ 
-        content: `✏️ 次の発言を${styleName}でMarkdown整形します。テキストを入力してください。`, 
+        content: `✏️ 次の発言を${styleName}でMarkdown整形します。テキストを入力してください。（${this.formatPendingTtl()}以内）`, 
+        components: [this.buildPendingCancelRow()],
         ephemeral: true 
       });
     } catch (error) {
@@ -131,7 +843,8 @@ export class InteractionHandler {
         throw new ValidationError(`サポートされていないファイル形式です。対応形式: ${supportedExtensions}`);
       }
       
-      await interaction.deferReply();
+      const confirm = await PublishConfirmation.isRequired(interaction.guild.id);
+      await interaction.deferReply({ ephemeral: confirm });
       
       // ファイルをダウンロードして一時ファイルとして保存
       const tempFilePath = await this.downloadFileToTemp(attachment);
@@ -143,34 +856,29 @@ export class InteractionHandler {
         attachment.size
       );
       
-      // OpenAIで整形
-      const formattedContent = await this.openaiService.formatWithInsert(
-        fileResult.content,
-        style,
-        interaction.guild.id
-      );
-      
-      // GitHub Issueとして保存
-      const combinedContent = `# 📝 元のファイル\n\n**ファイル名:** ${fileResult.originalName}\n**ファイルサイズ:** ${this.formatFileSize(fileResult.size)}\n**ファイルタイプ:** ${fileResult.type}\n\n---\n\n# ✨ 整形された文章\n\n${formattedContent}`;
+      // GitHub Issueとして保存。LLM での整形はキューで行い、ファイル情報の後ろに整形された文章を足す
+      const original = `# 📝 元のファイル\n\n**ファイル名:** ${fileResult.originalName}\n**ファイルサイズ:** ${this.formatFileSize(fileResult.size)}\n**ファイルタイプ:** ${fileResult.type}`;
       
       const issueFile: ProcessedFile = {
         original_name: `article-${style}-formatted.md`,
-        content: combinedContent,
-        size: Buffer.byteLength(combinedContent, 'utf-8'),
+        content: original,
+        size: Buffer.byteLength(original, 'utf-8'),
         type: 'markdown'
       };
       
-      const result = await this.githubService.processFileUpload(
-        interaction.guild.id,
-        interaction.channelId,
-        interaction.user.id,
-        issueFile,
-        true // skipSummary: articleコマンドの場合は要約をスキップ
-      );
-      
       const styleName = style === 'prep' ? 'PREP法' : 'PAS法';
-      await interaction.editReply(`✅ ファイル処理 & ${styleName}整形完了:\n\n${formattedContent}\n\n📎 Issue: ${result.url}`);
-      Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+      await interaction.editReply('⏳ 受け付けました。整形して Issue を作成します...');
+      await UploadQueue.enqueue({
+        guildId: interaction.guild.id,
+        channelId: interaction.channelId,
+        userId: interaction.user.id,
+        file: issueFile,
+        // articleコマンドの場合は要約をスキップ
+        options: { skipSummary: true, idempotencyKey: `discord-interaction:${interaction.id}` },
+        reply: this.getUploadReplyTarget(interaction, confirm),
+        completion: { type: 'formatted', heading: `✅ ファイル処理 & ${styleName}整形完了` },
+        format: { style, text: fileResult.content }
+      }, interaction.token);
       
     } catch (error) {
       const guildId = interaction.guild?.id;
@@ -191,6 +899,75 @@ export class InteractionHandler {
     }
   }
 
+  /**
+   * キューのワーカーが進捗・結果を書き込めるよう、この interaction の返信を指す。
+   */
+  private getUploadReplyTarget(interaction: RepliableInteraction, ephemeral: boolean): UploadReplyTarget {
+    return {
+      type: 'interaction',
+      applicationId: interaction.applicationId,
+      interactionId: interaction.id,
+      ephemeral,
+      createdAt: new Date(interaction.createdTimestamp).toISOString()
+    };
+  }
+
+  private formatLLMOperation(operation: LLMOperation): string {
+    const names: Record<LLMOperation, string> = {
+      summary: 'Issue要約',
+      format: 'insert / article 整形',
+      tweet: 'ツイート要約',
+    };
+    return names[operation];
+  }
+
+  private formatLLMOperationSettings(settings: LLMOperationSettings): string {
+    return [
+      `model=${settings.model || '（既定）'}`,
+      `temperature=${settings.temperature ?? '（既定）'}`,
+      `max_tokens=${settings.max_tokens ?? '（既定）'}`,
+    ].join(' / ');
+  }
+
+  private formatLLMBudget(budget: LLMBudget | undefined): string {
+    return [
+      `月間トークン ${budget?.monthly_token_limit?.toLocaleString('ja-JP') ?? '無制限'}`,
+      `月間費用 ${budget?.monthly_cost_limit_usd !== undefined ? `$${budget.monthly_cost_limit_usd}` : '無制限'}`,
+      `1ユーザー ${budget?.user_hourly_limit !== undefined ? `${budget.user_hourly_limit}回/時` : '無制限'}`,
+    ].join(' / ');
+  }
+
+  private formatUsageTotals(totals: UsageTotals): string {
+    return [
+      `${totals.calls} 回`,
+      `入力 ${totals.promptTokens.toLocaleString('ja-JP')} / 出力 ${totals.completionTokens.toLocaleString('ja-JP')} トークン`,
+      `約 $${totals.costUsd.toFixed(4)}`,
+    ].join(' / ');
+  }
+
+  private formatSaveMode(mode: SaveMode): string {
+    const names: Record<SaveMode, string> = {
+      issue: 'Issue',
+      commit: 'コミット',
+      both: 'Issue + コミット',
+      pr: 'Pull Request',
+    };
+    return names[mode];
+  }
+
+  private hasChannelSettings(channel: ChannelMapping): boolean {
+    return !!(channel.repo_override || channel.save_mode || channel.labels?.length || channel.summarize === false);
+  }
+
+  private formatChannelSettings(channel: ChannelMapping): string {
+    return [
+      channel.repo_override ? `${channel.repo_override.owner}/${channel.repo_override.name}` : '既定のリポジトリ',
+      channel.save_mode ? this.formatSaveMode(channel.save_mode) : undefined,
+      channel.labels?.length ? `ラベル: ${channel.labels.join(', ')}` : undefined,
+      channel.summarize === false ? '要約なし' : undefined,
+    ].filter(Boolean).join(' / ');
+  }
+
   private formatFileSize(bytes: number): string {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -256,6 +1033,75 @@ export class InteractionHandler {
          }
        }
 
+  // /config channel repo|clear|list（権限チェックは handleConfigCommand で済んでいる）
+  private async handleConfigChannelCommand(interaction: ChatInputCommandInteraction, guildId: string, sub: string): Promise<void> {
+    await interaction.deferReply({ ephemeral: true });
+
+    if (sub === 'list') {
+      const gm = await FileUtils.getGuildMapping(guildId);
+      const channels = (gm?.channels || []).filter(channel => this.hasChannelSettings(channel));
+      const removed = new Set((gm?.removed_repos || []).map(repo => repo.full_name));
+      const lines = [
+        '📋 チャンネルごとの設定',
+        `- 既定: ${gm ? `${gm.default_repo.owner}/${gm.default_repo.name} / ${this.formatSaveMode(gm.save_mode || 'issue')}` : '未設定 → /config repo'}`,
+        ...channels.map(channel => {
+          const repo = channel.repo_override && `${channel.repo_override.owner}/${channel.repo_override.name}`;
+          return `- <#${channel.channel_id}>: ${this.formatChannelSettings(channel)}${repo && removed.has(repo) ? '（⚠️ App のアクセス対象外）' : ''}`;
+        }),
+        channels.length === 0 ? '（チャンネルごとの設定はありません → /config channel repo）' : undefined,
+      ].filter(Boolean) as string[];
+      await interaction.editReply(lines.join('\n'));
+      Metrics.recordDiscordMessage(guildId, 'success');
+      return;
+    }
+
+    const channel = interaction.options.getChannel('channel');
+    const channelId = channel?.id || interaction.channelId;
+    const channelName = channel?.name
+      || (interaction.channel && 'name' in interaction.channel ? interaction.channel.name : null)
+      || channelId;
+
+    if (sub === 'clear') {
+      const cleared = await this.configService.clearChannelSettings(guildId, channelId);
+      await interaction.editReply(cleared
+        ? `✅ <#${channelId}> の設定を削除しました。サーバーの既定の設定で保存します。`
+        : `ℹ️ <#${channelId}> にはチャンネルごとの設定がありません。`);
+      Metrics.recordDiscordMessage(guildId, 'success');
+      return;
+    }
+
+    const repo = interaction.options.getString('name')?.trim();
+    const saveMode = interaction.options.getString('save_mode') as SaveMode | null;
+    const labelInput = interaction.options.getString('labels');
+    const summarize = interaction.options.getBoolean('summarize');
+    if (!repo && !saveMode && labelInput === null && summarize === null) {
+      throw new ValidationError('name / save_mode / labels / summarize のいずれかを指定してください。');
+    }
+
+    const gm = await FileUtils.getGuildMapping(guildId);
+    if (!gm) {
+      throw new ValidationError('リポジトリが未設定です。先に /config repo で紐付けてください。');
+    }
+    // 保存時ではなく設定時に、サーバーの installation からアクセスできるリポジトリか確認する
+    if (repo) {
+      await this.configService.verifyRepoAccess(gm.installation_id, repo);
+    }
+    const [owner, name] = repo ? repo.split('/') : [];
+    const labels = labelInput !== null ? this.parseLabelInput(labelInput) : null;
+
+    const updated = await this.configService.updateChannelSettings(guildId, channelId, channelName, {
+      ...(owner && name ? { repo_override: { owner, name } } : {}),
+      ...(saveMode ? { save_mode: saveMode } : {}),
+      ...(labels !== null ? { labels: labels.length > 0 ? labels : undefined } : {}),
+      // 既定（要約する）に戻す場合は項目ごと消す
+      ...(summarize !== null ? { summarize: summarize ? undefined : false } : {}),
+    });
+
+    const settings = updated.channels?.find(ch => ch.channel_id === channelId);
+    await interaction.editReply(`✅ <#${channelId}> の設定: ${settings ? this.formatChannelSettings(settings) : '既定'}`);
+    Metrics.recordDiscordMessage(guildId, 'success');
+  }
+
        private async handleConfigCommand(interaction: ChatInputCommandInteraction): Promise<void> {
          try {
            if (!interaction.guild) {
@@ -289,11 +1135,56 @@ export class InteractionHandler {
            }
 
            // サブコマンド分岐
+           if (interaction.options.getSubcommandGroup(false) === 'model') {
+             await interaction.deferReply({ ephemeral: true });
+             const gm = await FileUtils.getGuildMapping(interaction.guild.id);
+             const current = { ...(gm?.llm_settings || {}) };
+
+             if (sub === 'reset') {
+               const operation = interaction.options.getString('operation') as LLMOperation | null;
+               if (operation) delete current[operation];
+               await this.configService.updateGuildSettings(interaction.guild.id, {
+                 llm_settings: operation && Object.keys(current).length > 0 ? current : undefined
+               });
+               await interaction.editReply(operation
+                 ? `✅ ${this.formatLLMOperation(operation)} の設定を既定値に戻しました。`
+                 : '✅ すべての処理の設定を既定値に戻しました。');
+               Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+               return;
+             }
+
+             const operation = interaction.options.getString('operation', true) as LLMOperation;
+             const model = interaction.options.getString('model')?.trim();
+             const temperature = interaction.options.getNumber('temperature');
+             const maxTokens = interaction.options.getInteger('max_tokens');
+             if (!model && temperature === null && maxTokens === null) {
+               throw new ValidationError('model / temperature / max_tokens のいずれかを指定してください。');
+             }
+             if (model) this.configService.validateModelName(model);
+
+             const settings: LLMOperationSettings = {
+               ...current[operation],
+               ...(model ? { model } : {}),
+               ...(temperature !== null ? { temperature } : {}),
+               ...(maxTokens !== null ? { max_tokens: maxTokens } : {}),
+             };
+             current[operation] = settings;
+             await this.configService.updateGuildSettings(interaction.guild.id, { llm_settings: current });
+             await interaction.editReply(`✅ ${this.formatLLMOperation(operation)} の設定: ${this.formatLLMOperationSettings(settings)}`);
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (interaction.options.getSubcommandGroup(false) === 'channel') {
+             await this.handleConfigChannelCommand(interaction, interaction.guild.id, sub);
+             return;
+           }
+
            if (sub === 'openai_key') {
              const key = interaction.options.getString('key', true);
              await interaction.deferReply({ ephemeral: true });
              await SecretStore.put(interaction.guild.id, SECRET_KEYS.openai, key);
-             await interaction.editReply(`🔐 OpenAI APIキーを保存しました: ${maskKey(key)}`);
+             await interaction.editReply(`🔐 APIキーを保存しました: ${maskKey(key)}`);
              Metrics.recordDiscordMessage(interaction.guild.id, 'success');
              return;
            }
@@ -310,6 +1201,9 @@ export class InteractionHandler {
                ? `${gm.default_repo.owner}/${gm.default_repo.name} (installation: ${gm.installation_id})`
                : '未設定 → /config repo name:<owner/repo> installation:<ID>';
 
+             const channelMode = gm?.channels?.find(ch => ch.channel_id === interaction.channelId)?.save_mode;
+             const llm = await LLMProviderFactory.getSettings(interaction.guild.id);
+
              // Updated at (latest of guild mapping or secret file)
              let updated: string | undefined = undefined;
              try {
@@ -330,9 +1224,23 @@ export class InteractionHandler {
              const lines = [
                '🔎 設定状況',
                `- Repo: ${repoLine}`,
-               `- OpenAIキー: ${has ? keyMasked : '未設定 → /config openai_key key:<sk-...>'}`,
-               `- OpenAI疎通: 未実行 → /config test_openai`,
-               `- 保存モード: Issue`,
+               `- LLM: ${getProviderDisplayName(llm.provider)} / ${llm.model || '未設定'}${llm.baseUrl ? ` @ ${llm.baseUrl}` : ''}`,
+               ...(Object.entries(gm?.llm_settings || {}) as Array<[LLMOperation, LLMOperationSettings]>).map(
+                 ([operation, settings]) => `  - ${this.formatLLMOperation(operation)}: ${this.formatLLMOperationSettings(settings)}`
+               ),
+               `- APIキー: ${has ? keyMasked : '未設定 → /config openai_key key:<APIキー>'}`,
+               `- 利用上限: ${this.formatLLMBudget(gm?.llm_budget)}`,
+               `- LLM疎通: 未実行 → /config test_openai`,
+               `- 保存モード: ${this.formatSaveMode(gm?.save_mode || 'issue')}${channelMode ? `（このチャンネル: ${this.formatSaveMode(channelMode)}）` : ''}`,
+               gm && (channelMode || gm.save_mode || 'issue') !== 'issue'
+                 ? `- コミット先: ${gm.commit_path_pattern || 'Writing/{yyyyMMddHHmm}.md'} @ ${gm.commit_branch || '既定ブランチ'}（front matter: ${gm.commit_front_matter === false ? 'なし' : 'あり'}）`
+                 : undefined,
+               `- Issueタイトル: ${gm?.issue_title_template || '{ai_title}'}（要約なし時は日時）`,
+               `- 公開前の確認: ${gm?.confirm_before_publish ? '有効' : '無効'}`,
+               `- 管理用通知: ${gm?.admin_channel_id ? `<#${gm.admin_channel_id}>` : '未設定 → /config admin_channel'}`,
+               ...(gm?.removed_repos || []).map(
+                 repo => `- ⚠️ ${repo.full_name} は GitHub App のアクセス対象から外されています（${repo.removed_at}）`
+               ),
                updated ? `- 最終更新: ${updated}` : undefined,
              ].filter(Boolean) as string[];
 
@@ -340,25 +1248,208 @@ export class InteractionHandler {
              return;
            }
 
+           if (sub === 'llm') {
+             const provider = interaction.options.getString('provider', true) as LLMProviderName;
+             const model = interaction.options.getString('model')?.trim() || getDefaultModel(provider);
+             const baseUrl = interaction.options.getString('base_url')?.trim();
+             await interaction.deferReply({ ephemeral: true });
+
+             if (!model) {
+               throw new ValidationError(`${getProviderDisplayName(provider)} では model（Azure はデプロイ名）を指定してください。`);
+             }
+             if (baseUrl) {
+               this.configService.validateBaseUrl(baseUrl);
+             } else if (provider === 'azure' || provider === 'openai_compatible') {
+               throw new ValidationError(`${getProviderDisplayName(provider)} では base_url を指定してください。`);
+             }
+
+             await SecretStore.put(interaction.guild.id, SECRET_KEYS.llmProvider, provider);
+             await SecretStore.put(interaction.guild.id, SECRET_KEYS.llmModel, model);
+             // base_url はプロバイダごとに異なるので、指定がなければ前の値を消す
+             if (baseUrl) {
+               await SecretStore.put(interaction.guild.id, SECRET_KEYS.llmBaseUrl, baseUrl);
+             } else {
+               await SecretStore.remove(interaction.guild.id, SECRET_KEYS.llmBaseUrl);
+             }
+
+             const keyNote = baseUrl && provider !== 'openai_compatible' && !await SecretStore.has(interaction.guild.id, SECRET_KEYS.openai)
+               ? '\n⚠️ base_url を指定した場合はサーバー共通のキーを使いません。/config openai_key でこのサーバーのキーを設定してください。'
+               : '';
+             await interaction.editReply(
+               `✅ LLM を ${getProviderDisplayName(provider)} / ${model}${baseUrl ? ` @ ${baseUrl}` : ''} に設定しました。/config test_openai で疎通を確認できます。${keyNote}`
+             );
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (sub === 'title_template') {
+             const template = interaction.options.getString('template')?.trim() || undefined;
+             await interaction.deferReply({ ephemeral: true });
+             if (template && !template.includes('{ai_title}')) {
+               throw new ValidationError('テンプレートには {ai_title} を含めてください。例: {date} {ai_title}');
+             }
+             await this.configService.updateGuildSettings(interaction.guild.id, { issue_title_template: template });
+             await interaction.editReply(template
+               ? `✅ Issueタイトルのテンプレートを設定しました: ${template}`
+               : '✅ Issueタイトルのテンプレートを既定値（{ai_title}）に戻しました。');
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (sub === 'usage') {
+             await interaction.deferReply({ ephemeral: true });
+             const now = new Date();
+             const usage = await UsageTracker.getMonthToDate(interaction.guild.id, now);
+             const monthLabel = `${now.getUTCFullYear()}年${now.getUTCMonth() + 1}月`;
+             if (usage.calls === 0) {
+               await interaction.editReply(`📊 ${monthLabel}の LLM 使用量: まだ記録がありません。`);
+               return;
+             }
+
+             const lines = [
+               `📊 ${monthLabel}の LLM 使用量（UTC 1日〜今日）`,
+               `- 合計: ${this.formatUsageTotals(usage)}`,
+               ...(Object.entries(usage.byOperation) as Array<[LLMOperation, UsageTotals]>).map(
+                 ([operation, totals]) => `  - ${this.formatLLMOperation(operation)}: ${this.formatUsageTotals(totals)}`
+               ),
+               usage.unpricedCalls > 0
+                 ? `※ 単価不明のモデルの ${usage.unpricedCalls} 回分は費用に含まれていません（LLM_PRICES で単価を設定できます）。`
+                 : undefined,
+               '※ 費用は公開価格からの概算です。',
+             ].filter(Boolean) as string[];
+
+             await interaction.editReply(lines.join('\n'));
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (sub === 'budget') {
+             const tokens = interaction.options.getInteger('tokens');
+             const costUsd = interaction.options.getNumber('cost_usd');
+             const userHourly = interaction.options.getInteger('user_hourly');
+             await interaction.deferReply({ ephemeral: true });
+
+             let budget = (await FileUtils.getGuildMapping(interaction.guild.id))?.llm_budget;
+             if (tokens !== null || costUsd !== null || userHourly !== null) {
+               // 0 は解除、未指定は現在の値のまま
+               const next: LLMBudget = { ...budget };
+               const changes: Array<[keyof LLMBudget, number | null]> = [
+                 ['monthly_token_limit', tokens],
+                 ['monthly_cost_limit_usd', costUsd],
+                 ['user_hourly_limit', userHourly],
+               ];
+               for (const [key, value] of changes) {
+                 if (value === null) continue;
+                 if (value > 0) {
+                   next[key] = value;
+                 } else {
+                   delete next[key];
+                 }
+               }
+               const gm = await this.configService.updateGuildSettings(interaction.guild.id, {
+                 llm_budget: Object.keys(next).length > 0 ? next : undefined,
+               });
+               budget = gm.llm_budget;
+               Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             }
+
+             await interaction.editReply(`💰 LLM の利用上限: ${this.formatLLMBudget(budget)}\n上限に達すると要約なしで Issue を作成し、整形はエラーになります。`);
+             return;
+           }
+
+           if (sub === 'admin_channel') {
+             const channel = interaction.options.getChannel('channel');
+             await interaction.deferReply({ ephemeral: true });
+             await this.configService.updateGuildSettings(interaction.guild.id, { admin_channel_id: channel?.id });
+             await interaction.editReply(channel
+               ? `✅ 管理用の通知を <#${channel.id}> に送るようにしました（リポジトリが GitHub App のアクセス対象から外された場合など）。`
+               : '✅ 管理用の通知チャンネルを解除しました。');
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (sub === 'confirm') {
+             const enabled = interaction.options.getBoolean('enabled', true);
+             await interaction.deferReply({ ephemeral: true });
+             await this.configService.updateGuildSettings(interaction.guild.id, { confirm_before_publish: enabled || undefined });
+             await interaction.editReply(enabled
+               ? '✅ 作成前にプレビューを表示するようにしました。「公開」を押すまで GitHub には保存されません。'
+               : '✅ プレビューなしで即座に作成するようにしました。');
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
+           if (sub === 'save_mode') {
+             const mode = interaction.options.getString('mode', true) as SaveMode;
+             const pathPattern = interaction.options.getString('path')?.trim();
+             const branch = interaction.options.getString('branch')?.trim();
+             const frontMatter = interaction.options.getBoolean('front_matter');
+             const channel = interaction.options.getChannel('channel');
+             await interaction.deferReply({ ephemeral: true });
+
+             // コミット先はサーバー全体の設定なので、チャンネル指定と一緒には受け付けない（他のチャンネルまで変わってしまうため）
+             if (channel && (pathPattern || branch || frontMatter !== null)) {
+               throw new ValidationError('path / branch / front_matter はサーバー全体の設定です。channel を指定せずに設定してください。');
+             }
+             if (pathPattern) this.configService.validateCommitPathPattern(pathPattern);
+             if (branch) this.configService.validateBranchName(branch);
+
+             if (channel) {
+               await this.configService.updateChannelSettings(
+                 interaction.guild.id,
+                 channel.id,
+                 channel.name || channel.id,
+                 { save_mode: mode }
+               );
+             }
+             const gm = await this.configService.updateGuildSettings(interaction.guild.id, {
+               ...(channel ? {} : { save_mode: mode }),
+               ...(pathPattern ? { commit_path_pattern: pathPattern } : {}),
+               ...(branch ? { commit_branch: branch } : {}),
+               ...(frontMatter !== null ? { commit_front_matter: frontMatter } : {}),
+             });
+
+             const target = channel ? `<#${channel.id}>` : 'このサーバー';
+             const lines = [`✅ ${target} の保存モードを「${this.formatSaveMode(mode)}」に設定しました。`];
+             if (mode !== 'issue') {
+               lines.push(`- コミット先: ${gm.commit_path_pattern || 'Writing/{yyyyMMddHHmm}.md'} @ ${gm.commit_branch || '既定ブランチ'}`);
+             }
+             await interaction.editReply(lines.join('\n'));
+             Metrics.recordDiscordMessage(interaction.guild.id, 'success');
+             return;
+           }
+
            if (sub === 'delete_openai') {
              await interaction.deferReply({ ephemeral: true });
              await SecretStore.remove(interaction.guild.id, SECRET_KEYS.openai);
-             await interaction.editReply('🗑️ OpenAI APIキーを削除しました。');
+             await interaction.editReply('🗑️ APIキーを削除しました。');
              return;
            }
 
            if (sub === 'test_openai') {
              await interaction.deferReply({ ephemeral: true });
+             const llm = await LLMProviderFactory.getSettings(interaction.guild.id);
+             const target = `${getProviderDisplayName(llm.provider)} / ${llm.model || '未設定'}`;
              const ok = await this.openaiService.healthCheckForGuild(interaction.guild.id);
-             await interaction.editReply(ok ? '✅ OpenAI 疎通OK' : '❌ OpenAI 疎通失敗（キーや接続を確認してください）');
+             await interaction.editReply(ok ? `✅ LLM 疎通OK（${target}）` : `❌ LLM 疎通失敗（${target}。キーや接続先を確認してください）`);
              return;
            }
 
             if (sub === 'repo') {
-             // 新仕様の repo サブコマンド（owner/repo + installation）
-             const repo = interaction.options.getString('name', true);
-             const installationId = interaction.options.getString('installation', true);
+             // 新仕様の repo サブコマンド（owner/repo + installation。installation の省略時はリポジトリから判定）
+             let repo = interaction.options.getString('name', true).trim();
+             let installationId = interaction.options.getString('installation')?.trim();
              await interaction.deferReply({ ephemeral: true });
+             if (!installationId) {
+               const found = await this.configService.findInstallationForRepo(interaction.guild.id, repo);
+               if (!found) {
+                 const linked = await FileUtils.getGuildMapping(interaction.guild.id);
+                 throw new ValidationError(linked
+                   ? `${repo} にアクセスできる GitHub App のインストールが見つかりません。このサーバーに紐付けたインストールの対象にリポジトリを追加するか、installation を指定してください（/config repo_help）。`
+                   : 'このサーバーにはまだ GitHub App が紐付けられていないため、installation を判定できません。先に /config connect で紐付けるか、installation を指定してください（/config repo_help）。');
+               }
+               ({ installationId, repo } = found);
+             }
              await this.configService.configureGuild(
                interaction.guild.id,
                interaction.guild.name,
@@ -371,15 +1462,44 @@ export class InteractionHandler {
              return;
            }
 
+            if (sub === 'connect') {
+              await interaction.deferReply({ ephemeral: true });
+              const state = InstallState.sign({
+                guild_id: interaction.guild.id,
+                guild_name: interaction.guild.name,
+                channel_id: interaction.channelId,
+                user_id: interaction.user.id
+              });
+              const url = await this.configService.getAppInstallUrl(state);
+              const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder().setStyle(ButtonStyle.Link).setLabel('GitHub App をインストール').setURL(url)
+              );
+              await interaction.editReply({
+                content: [
+                  '🔗 下のボタンから GitHub App をインストールすると、このサーバーに自動で紐付けます。',
+                  '- インストール時に選んだリポジトリのうち 1 つが既定のリポジトリになります（/config repo で変更できます）。',
+                  '- 紐付けが終わるとこのチャンネルにお知らせします。',
+                  `- リンクの有効期限は ${INSTALL_STATE_TTL_SECONDS / 60} 分で、一度だけ使えます。`
+                ].join('\n'),
+                components: [row]
+              });
+              return;
+            }
+
             if (sub === 'repo_help') {
               await interaction.deferReply({ ephemeral: true });
               const helpLines = [
                 '🆘 repo 設定ヘルプ',
                 '',
+                'このサーバーにまだ GitHub App を紐付けていない場合は、先に /config connect を実行してください（インストールと紐付けをまとめて行えます）。',
+                'リポジトリの候補表示と installation の自動判定は、このサーバーに紐付け済みのインストールだけが対象です。紐付け前は installation の指定が必要です。',
+                '',
                 '- name: Issueを作成するリポジトリを owner/repo 形式で指定します。',
                 '  例: ame00000/githubapps（このリポジトリにIssueが作成されます）',
                 '',
-                '- installation: GitHub App のインストールID（数値）を指定します。',
+                '  入力を始めると、紐付け済みの App がアクセスできるリポジトリが候補に表示されます。',
+                '',
+                '- installation: GitHub App のインストールID（数値）を指定します。省略すると紐付け済みのインストールから自動で選びます。',
                 '  取得方法（簡単）: GitHubのApp設定 → Configure/Installations で対象を開き、URL末尾の数値を使用します。',
                 '  例: https://github.com/settings/installations/12345678 → 12345678',
                 '',
@@ -1,21 +1,22 @@
-import { Message, AttachmentBuilder } from 'discord.js';
+import { Message } from 'discord.js';
 import { Logger } from '../../shared/logger';
 import { ErrorHandler, ValidationError } from '../../shared/error-handler';
 import { Metrics } from '../../shared/metrics';
-import { ProcessedFile } from '../../shared/types';
-import { GitHubService } from '../../api/services/github.service';
-import { OpenAIService } from '../../api/services/openai.service';
-import { issueTextWaitMap, insertTextWaitMap } from './interaction-handler';
+import { ProcessedFile, IssueLink } from '../../shared/types';
+import { FileUtils } from '../../shared/file-utils';
+import { MessageFormatter } from '../message-formatter';
+import { GitHubService, UploadOptions } from '../../api/services/github.service';
+import { PendingInputs } from '../pending-inputs';
+import { UploadCompletion, UploadFormat, UploadQueue } from '../upload-queue';
 
 export class MessageHandler {
   private githubService: GitHubService;
-  private openaiService: OpenAIService;
   private readonly supportedExtensions = ['.md', '.txt', '.json', '.yml', '.yaml'];
   private readonly maxFileSize = 10 * 1024 * 1024; // 10MB
+  private readonly maxInlineCommentAttachmentSize = 64 * 1024; // 64KB
 
   constructor() {
     this.githubService = new GitHubService();
-    this.openaiService = new OpenAIService();
   }
 
   async handleMessage(message: Message): Promise<void> {
@@ -42,9 +43,10 @@ export class MessageHandler {
       return;
     }
 
-    // /issue text 入力待ち状態のユーザーか？
-    const waitChannelId = issueTextWaitMap.get(message.author.id);
-    if (waitChannelId && message.channel.id === waitChannelId) {
+    // /issue text・/insert の入力待ち状態のユーザーか？（取り出した時点で待ち状態は解除される）
+    const pending = await PendingInputs.take(message.author.id, message.channel.id);
+
+    if (pending?.kind === 'issue_text') {
       // テキスト発言をIssueとして処理
       try {
         const processedFile: ProcessedFile = {
@@ -53,14 +55,13 @@ export class MessageHandler {
           size: Buffer.byteLength(message.content, 'utf-8'),
           type: 'markdown'
         };
-        const result = await this.githubService.processFileUpload(
-          message.guild!.id,
-          message.channel.id,
-          message.author.id,
-          processedFile
+        await this.enqueueUpload(
+          message,
+          processedFile,
+          { idempotencyKey: `discord-message:${message.id}` },
+          { type: 'created' },
+          '⏳ 受け付けました。Issue を作成しています…'
         );
-        await message.reply(`✅ Issue created: ${result.url}`);
-        Metrics.recordDiscordMessage(message.guild!.id, 'success');
       } catch (error) {
         await ErrorHandler.handleError(error as Error, {
           guildId: message.guild?.id,
@@ -70,43 +71,30 @@ export class MessageHandler {
         });
         Metrics.recordDiscordMessage(message.guild?.id || 'unknown', 'error');
         await message.reply(`❌ Issue作成中にエラー: ${ErrorHandler.getErrorMessage(error as Error)}`);
-      } finally {
-        issueTextWaitMap.delete(message.author.id);
       }
       return;
     }
 
-    // /insert 入力待ち状態のユーザーか？
-    const insertWaitInfo = insertTextWaitMap.get(message.author.id);
-    if (insertWaitInfo && message.channel.id === insertWaitInfo.channelId) {
-      // テキスト発言をinsertとして処理
+    if (pending?.kind === 'insert') {
+      const style = pending.style || 'prep';
+      // テキスト発言をinsertとして処理。整形（LLM）はキューで行い、元文章の後ろに整形された文章を足してIssueを作成
       try {
-        const formattedContent = await this.openaiService.formatWithInsert(
-          message.content,
-          insertWaitInfo.style,
-          message.guild!.id
-        );
-        
-        // 元文章と整形された文章を組み合わせてIssueを作成
-        const combinedContent = `# 📝 元の文章\n\n${message.content}\n\n---\n\n# ✨ 整形された文章\n\n${formattedContent}`;
-        
+        const original = `# 📝 元の文章\n\n${message.content}`;
         const processedFile: ProcessedFile = {
-          original_name: `insert-${insertWaitInfo.style}-formatted.md`,
-          content: combinedContent,
-          size: Buffer.byteLength(combinedContent, 'utf-8'),
+          original_name: `insert-${style}-formatted.md`,
+          content: original,
+          size: Buffer.byteLength(original, 'utf-8'),
           type: 'markdown'
         };
         
-        const result = await this.githubService.processFileUpload(
-          message.guild!.id,
-          message.channel.id,
-          message.author.id,
+        await this.enqueueUpload(
+          message,
           processedFile,
-          true // skipSummary: insertコマンドの場合は要約をスキップ
+          { skipSummary: true, idempotencyKey: `discord-message:${message.id}` }, // insertコマンドの場合は要約をスキップ
+          { type: 'formatted', heading: '✅ Markdown整形完了 & Issue作成' },
+          '⏳ 受け付けました。整形して Issue を作成します…',
+          { style, text: message.content }
         );
-        
-        await message.reply(`✅ Markdown整形完了 & Issue作成:\n\n${formattedContent}\n\n📎 Issue: ${result.url}`);
-        Metrics.recordDiscordMessage(message.guild!.id, 'success');
       } catch (error) {
         await ErrorHandler.handleError(error as Error, {
           guildId: message.guild?.id,
@@ -116,12 +104,19 @@ export class MessageHandler {
         });
         Metrics.recordDiscordMessage(message.guild?.id || 'unknown', 'error');
         await message.reply(`❌ Markdown整形中にエラー: ${ErrorHandler.getErrorMessage(error as Error)}`);
-      } finally {
-        insertTextWaitMap.delete(message.author.id);
       }
       return;
     }
 
+    // Bot の「Issue created」メッセージへの返信は Issue コメントとして扱う
+    if (message.reference?.messageId) {
+      const link = await FileUtils.getIssueLinkByMessage(message.reference.messageId);
+      if (link) {
+        await this.handleIssueReply(message, link);
+        return;
+      }
+    }
+
     try {
       const attachments = Array.from(message.attachments.values());
       
@@ -146,8 +141,6 @@ export class MessageHandler {
         await this.processAttachment(message, attachment);
       }
 
-      Metrics.recordDiscordMessage(message.guild.id, 'success');
-
     } catch (error) {
       await ErrorHandler.handleError(error as Error, {
         guildId: message.guild?.id,
@@ -162,6 +155,56 @@ export class MessageHandler {
     }
   }
 
+  private async handleIssueReply(message: Message, link: IssueLink): Promise<void> {
+    try {
+      Logger.info('Adding Discord reply as issue comment', {
+        guildId: message.guild?.id,
+        messageId: message.id,
+        issueUrl: link.issue_url
+      });
+
+      const body = await this.buildIssueCommentBody(message);
+      await this.githubService.addIssueComment(link, body);
+      await message.react('✅');
+      Metrics.recordDiscordMessage(message.guild!.id, 'success');
+    } catch (error) {
+      const guildId = message.guild?.id;
+      await ErrorHandler.handleError(error as Error, {
+        channelId: message.channel.id,
+        userId: message.author.id,
+        operation: 'issue_comment',
+        ...(guildId ? { guildId } : {}),
+      });
+      Metrics.recordDiscordMessage(message.guild?.id || 'unknown', 'error');
+      await message.reply(`❌ Issueコメントの追加中にエラー: ${ErrorHandler.getErrorMessage(error as Error)}`);
+    }
+  }
+
+  private async buildIssueCommentBody(message: Message): Promise<string> {
+    const sections = [`**${MessageFormatter.formatAuthor(message)}** (Discord):`];
+    if (message.content.trim()) {
+      sections.push(message.content.trim());
+    }
+
+    // テキスト添付は Discord の CDN URL が失効しても読めるよう本文に展開する
+    const links: string[] = [];
+    for (const attachment of message.attachments.values()) {
+      const isText = this.supportedExtensions.some(ext => attachment.name.toLowerCase().endsWith(ext));
+      if (isText && attachment.size <= this.maxInlineCommentAttachmentSize) {
+        const file = await this.downloadAndProcessFile(attachment);
+        sections.push(`<details>\n<summary>📎 ${file.original_name}</summary>\n\n\`\`\`\n${file.content}\n\`\`\`\n</details>`);
+      } else {
+        links.push(`- [${attachment.name}](${attachment.url})`);
+      }
+    }
+    if (links.length > 0) {
+      sections.push(`**添付ファイル:**\n${links.join('\n')}`);
+    }
+
+    sections.push(`---\n*[Discord のメッセージ](${message.url}) から投稿*`);
+    return sections.join('\n\n');
+  }
+
   private async processAttachment(message: Message, attachment: any): Promise<void> {
     try {
       // Validate file extension
@@ -192,17 +235,16 @@ export class MessageHandler {
 
       // Download and process file
       const processedFile = await this.downloadAndProcessFile(attachment);
-      
-      // GitHub連携を復活
-      const result = await this.githubService.processFileUpload(
-        message.guild!.id,
-        message.channel.id,
-        message.author.id,
-        processedFile
-      );
 
-      // Reply with success message
-      await this.sendSuccessMessage(message, result, processedFile);
+      // 要約と GitHub への作成はキューで行い、進捗と結果はこの返信を編集して伝える
+      await this.enqueueUpload(
+        message,
+        processedFile,
+        // 1つのメッセージに複数の添付がありうるので添付ごとに区別する
+        { idempotencyKey: `discord-message:${message.id}:${attachment.id}` },
+        { type: 'file' },
+        `⏳ 「${processedFile.original_name}」を受け付けました。要約して保存します…`
+      );
 
     } catch (error) {
       Logger.error(`Failed to process attachment`, error as Error, {
@@ -214,6 +256,42 @@ export class MessageHandler {
     }
   }
 
+  /**
+   * 受付の返信を送り、それを進捗・結果の表示先としてアップロードをキューに積む。
+   * 確認モードのサーバーではこの返信がプレビューに置き換わる（ボタンは投稿者のみ操作可能）。
+   * Discord がイベントを再送してきた場合など、作成済み・受付済みのものは何もしない（最初の返信に進捗・結果が出る）。
+   */
+  private async enqueueUpload(
+    message: Message,
+    file: ProcessedFile,
+    options: UploadOptions,
+    completion: UploadCompletion,
+    acknowledgement: string,
+    format?: UploadFormat
+  ): Promise<void> {
+    const queued = await UploadQueue.enqueueOnce(this.githubService, options.idempotencyKey, async () => {
+      const reply = await message.reply({ content: acknowledgement, allowedMentions: { parse: [] } });
+      return {
+        guildId: message.guild!.id,
+        channelId: message.channel.id,
+        userId: message.author.id,
+        file,
+        options,
+        reply: { type: 'message', channelId: reply.channel.id, messageId: reply.id },
+        completion,
+        sourceMessageId: message.id,
+        ...(format ? { format } : {})
+      };
+    });
+    if (!queued) {
+      Logger.info('Message already processed or queued; skipping', {
+        guildId: message.guild?.id,
+        messageId: message.id,
+        idempotencyKey: options.idempotencyKey
+      });
+    }
+  }
+
   private async downloadAndProcessFile(attachment: any): Promise<ProcessedFile> {
     try {
       const response = await fetch(attachment.url);
@@ -255,49 +333,6 @@ export class MessageHandler {
     return typeMap[extension || ''] || 'unknown';
   }
 
-  private async sendSuccessMessage(
-    message: Message,
-    result: any,
-    file: ProcessedFile
-  ): Promise<void> {
-    try {
-      const isIssue = 'number' in result;
-      const emoji = isIssue ? '🎯' : '📝';
-      const type = isIssue ? 'Issue' : 'Gist';
-      
-      const embed = {
-        color: 0x00ff00,
-        title: `${emoji} ${type}を作成しました`,
-        description: `ファイル「${file.original_name}」の処理が完了しました。`,
-        fields: [
-          {
-            name: '📄 ファイル情報',
-            value: `**名前:** ${file.original_name}\n**サイズ:** ${this.formatFileSize(file.size)}\n**タイプ:** ${file.type}`,
-            inline: true
-          },
-          {
-            name: `🔗 ${type}リンク`,
-            value: `[こちらから確認](${result.url})`,
-            inline: true
-          }
-        ],
-        footer: {
-          text: 'Discord-GitHub Integration Bot',
-          icon_url: 'https://github.githubassets.com/images/modules/logos_page/GitHub-Mark.png'
-        },
-        timestamp: new Date().toISOString()
-      };
-
-      await message.reply({ embeds: [embed] });
-
-    } catch (error) {
-      Logger.error(`Failed to send success message`, error as Error);
-      
-      // Fallback to simple text message
-      await message.reply(`✅ ファイル「${file.original_name}」の処理が完了しました。\n🔗 ${result.url}`);
-    }
-  }
-
   private async sendErrorMessage(message: Message, error: Error): Promise<void> {
     try {
       const isValidationError = error instanceof ValidationError;
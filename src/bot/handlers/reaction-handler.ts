@@ -77,7 +77,7 @@ export class ReactionHandler {
       let tweetText = contentToTweet;
       if (tweetText.length > maxLen) {
         if (message.guild) {
-          tweetText = await this.twitterService.summarizeForTweet(tweetText, message.guild.id);
+          tweetText = await this.twitterService.summarizeForTweet(tweetText, message.guild.id, user.id);
         } else {
           tweetText = tweetText.substring(0, Math.max(0, maxLen - 1)).trimEnd() + '…';
         }
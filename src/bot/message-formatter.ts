@@ -0,0 +1,71 @@
+import { Message } from 'discord.js';
+import { ProcessedFile } from '../shared/types';
+
+export class MessageFormatter {
+  /**
+   * 1件のメッセージを投稿者・日時・元メッセージへのリンク付きの Markdown にする。
+   * 他人の発言を保存する場合もあるため、必ず出典を残す。
+   */
+  static formatMessage(message: Message): string {
+    const header = [
+      `> **投稿者:** ${this.formatAuthor(message)}`,
+      `> **日時:** ${message.createdAt.toISOString()}`,
+      `> **元メッセージ:** ${message.url}`,
+    ].join('\n');
+
+    const body = message.content.trim() || '*（本文なし）*';
+    const attachments = this.formatAttachments(message);
+
+    return [header, body, attachments].filter(Boolean).join('\n\n');
+  }
+
+  static toProcessedFile(message: Message): ProcessedFile {
+    const content = this.formatMessage(message);
+    return {
+      original_name: `discord-message-${message.id}.md`,
+      content,
+      size: Buffer.byteLength(content, 'utf-8'),
+      type: 'markdown'
+    };
+  }
+
+  /**
+   * 複数メッセージを時系列順の Markdown トランスクリプトにする（/issue thread 用）。
+   */
+  static formatTranscript(messages: Message[], title: string, sourceUrl: string): string {
+    const sorted = [...messages].sort((a, b) => a.createdTimestamp - b.createdTimestamp);
+    const first = sorted[0];
+    const last = sorted[sorted.length - 1];
+
+    const header = [
+      `# 💬 ${title}`,
+      '',
+      `- **チャンネル:** ${sourceUrl}`,
+      first && last ? `- **期間:** ${first.createdAt.toISOString()} 〜 ${last.createdAt.toISOString()}` : undefined,
+      `- **メッセージ数:** ${sorted.length}`,
+      `- **参加者:** ${Array.from(new Set(sorted.map(m => this.formatAuthor(m)))).join(', ')}`,
+    ].filter((line): line is string => line !== undefined).join('\n');
+
+    const entries = sorted.map(message => {
+      const heading = `**${this.formatAuthor(message)}** — ${message.createdAt.toISOString()} [↗](${message.url})`;
+      const body = message.content.trim();
+      const attachments = this.formatAttachments(message);
+      return [heading, body, attachments].filter(Boolean).join('\n');
+    });
+
+    return `${header}\n\n---\n\n${entries.join('\n\n')}\n`;
+  }
+
+  static formatAuthor(message: Message): string {
+    const displayName = message.member?.displayName || message.author.globalName || message.author.username;
+    return displayName === message.author.username
+      ? `@${message.author.username}`
+      : `${displayName} (@${message.author.username})`;
+  }
+
+  static formatAttachments(message: Message): string {
+    if (message.attachments.size === 0) return '';
+    const lines = Array.from(message.attachments.values()).map(a => `- [${a.name}](${a.url})`);
+    return `**添付ファイル:**\n${lines.join('\n')}`;
+  }
+}
@@ -0,0 +1,82 @@
+import { Client, Routes } from 'discord.js';
+import { Logger } from '../shared/logger';
+import { ExpiringStore } from '../shared/expiring-store';
+
+export interface PendingInput {
+  kind: 'issue_text' | 'insert';
+  guildId: string;
+  channelId: string;
+  userId: string;
+  style?: 'prep' | 'pas';
+  // 入力待ちを告げた ephemeral 返信を後から編集するためのもの（有効期限は15分）
+  applicationId: string;
+  interactionToken: string;
+  createdAt: string;
+}
+
+export const PENDING_CANCEL_BUTTON_ID = 'pending_input_cancel';
+
+const DEFAULT_TTL_SECONDS = 300;
+const INTERACTION_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+
+/**
+ * /issue text・/insert の「次の発言を待つ」状態。ユーザーごとに1件、DATA_PATH に保存され期限付き。
+ */
+export class PendingInputs {
+  private static store = new ExpiringStore<PendingInput>('pending_inputs', PendingInputs.getTtlSeconds() * 1000);
+
+  static getTtlSeconds(): number {
+    const v = parseInt(process.env.PENDING_INPUT_TTL_SECONDS || `${DEFAULT_TTL_SECONDS}`, 10);
+    return Number.isFinite(v) && v > 0 ? v : DEFAULT_TTL_SECONDS;
+  }
+
+  static async begin(input: Omit<PendingInput, 'createdAt'>): Promise<void> {
+    await this.store.set(input.userId, { ...input, createdAt: new Date().toISOString() });
+  }
+
+  /**
+   * 指定チャンネルでの入力待ちがあれば取り出す（取り出した時点で解除される）。
+   */
+  static async take(userId: string, channelId: string): Promise<PendingInput | null> {
+    const pending = await this.store.get(userId);
+    if (!pending || pending.channelId !== channelId) return null;
+    await this.store.delete(userId);
+    return pending;
+  }
+
+  static async cancel(userId: string): Promise<PendingInput | null> {
+    return this.store.delete(userId);
+  }
+
+  /**
+   * 期限切れの入力待ちを解除し、ユーザーに知らせる。ephemeral 返信が編集できればそれを、
+   * トークン失効後は DM で通知する。
+   */
+  static async sweepExpired(client: Client): Promise<void> {
+    const expired = await this.store.takeExpired();
+
+    for (const { value: pending } of expired) {
+      const command = pending.kind === 'issue_text' ? '/issue text' : '/insert';
+      const content = `⌛ ${command} の入力待ちが時間切れになりました。必要であればもう一度実行してください。`;
+
+      try {
+        const tokenAge = Date.now() - new Date(pending.createdAt).getTime();
+        if (tokenAge < INTERACTION_TOKEN_LIFETIME_MS) {
+          await client.rest.patch(
+            Routes.webhookMessage(pending.applicationId, pending.interactionToken, '@original'),
+            { body: { content, components: [] } }
+          );
+        } else {
+          const user = await client.users.fetch(pending.userId);
+          await user.send(content);
+        }
+        Logger.info('Pending input expired', { userId: pending.userId, kind: pending.kind });
+      } catch (error) {
+        Logger.warn('Failed to notify pending input expiry', {
+          userId: pending.userId,
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,222 @@
+import {
+  ActionRowBuilder,
+  BaseMessageOptions,
+  ButtonBuilder,
+  ButtonStyle,
+  ModalBuilder,
+  TextInputBuilder,
+  TextInputStyle
+} from 'discord.js';
+import { randomUUID } from 'crypto';
+import { ExpiringStore } from '../shared/expiring-store';
+import { FileUtils } from '../shared/file-utils';
+import { GitHubService, PreparedUpload, UploadPreview, UploadSteps } from '../api/services/github.service';
+
+export interface PendingPublish {
+  prepared: PreparedUpload;
+  // プレビューを ephemeral で出した場合は、公開時にチャンネルへ別途告知する
+  ephemeral: boolean;
+  sourceMessageId?: string;
+  // 公開に失敗した場合に、作成済みの手順（ブランチなど）を再試行で作り直さないよう残す
+  steps?: UploadSteps;
+  createdAt: string;
+}
+
+export interface PublishEdit {
+  title: string;
+  body?: string;
+  labels: string[];
+}
+
+// プレビューのボタン: publish:<publish|edit|cancel>:<id>、編集フォーム: publish_edit:<id>
+export const PUBLISH_BUTTON_PREFIX = 'publish:';
+export const PUBLISH_EDIT_MODAL_PREFIX = 'publish_edit:';
+export type PublishAction = 'publish' | 'edit' | 'cancel';
+
+// ephemeral 返信を編集できるのはインタラクションから15分まで
+const PREVIEW_TTL_MS = 15 * 60 * 1000;
+const MAX_PREVIEW_BODY = 1500;
+const MODAL_TEXT_MAX_LENGTH = 4000;
+
+const KIND_LABELS: Record<UploadPreview['kind'], string> = {
+  issue: 'Issue',
+  gist: 'Gist',
+  commit: 'コミット',
+  pull_request: 'Pull Request',
+};
+
+/**
+ * 「公開前に確認する」モードのプレビュー。要約・整形後の内容を保存し、公開 / 編集 / キャンセルを待つ。
+ * 公開待ちの間はアップロードの idempotencyKey を claim したままにし、キャンセル・期限切れで解放する。
+ */
+export class PublishConfirmation {
+  private static store = new ExpiringStore<PendingPublish>('pending_publishes', PREVIEW_TTL_MS);
+
+  static async isRequired(guildId: string): Promise<boolean> {
+    const mapping = await FileUtils.getGuildMapping(guildId);
+    return mapping?.confirm_before_publish === true;
+  }
+
+  /**
+   * 公開待ちとして保存し、プレビューのメッセージ内容を返す。
+   */
+  static async stage(
+    githubService: GitHubService,
+    prepared: PreparedUpload,
+    meta: { ephemeral: boolean; sourceMessageId?: string }
+  ): Promise<BaseMessageOptions> {
+    const id = randomUUID();
+    await this.store.set(id, {
+      prepared,
+      ephemeral: meta.ephemeral,
+      ...(meta.sourceMessageId ? { sourceMessageId: meta.sourceMessageId } : {}),
+      createdAt: new Date().toISOString(),
+    });
+    return this.buildPreviewMessage(id, prepared, await githubService.buildPreview(prepared));
+  }
+
+  static async get(id: string): Promise<PendingPublish | null> {
+    return this.store.get(id);
+  }
+
+  static async take(id: string): Promise<PendingPublish | null> {
+    return this.store.delete(id);
+  }
+
+  /**
+   * 公開に失敗したプレビューを公開待ちに戻し、再試行・キャンセル用のプレビューを返す。
+   */
+  static async restore(githubService: GitHubService, id: string, pending: PendingPublish): Promise<BaseMessageOptions> {
+    await this.store.set(id, pending);
+    return this.buildPreviewMessage(id, pending.prepared, await githubService.buildPreview(pending.prepared));
+  }
+
+  /**
+   * 公開せずに取り下げたプレビューの claim を解放する（同じメッセージやファイルを再度保存できるようにする）。
+   */
+  static async discard(githubService: GitHubService, pending: PendingPublish): Promise<void> {
+    await githubService.releaseUpload(pending.prepared.options.idempotencyKey);
+  }
+
+  // 放置されたプレビューを保存ファイルから取り除き、claim を解放する（ボタンは押しても期限切れと表示される）
+  static async pruneExpired(githubService: GitHubService): Promise<void> {
+    for (const { value } of await this.store.takeExpired()) {
+      await this.discard(githubService, value);
+    }
+  }
+
+  /**
+   * 編集内容を反映して保存し直し、更新後のプレビューを返す。
+   */
+  static async applyEdit(
+    githubService: GitHubService,
+    id: string,
+    pending: PendingPublish,
+    edit: PublishEdit
+  ): Promise<BaseMessageOptions> {
+    const { prepared } = pending;
+    const options = { ...prepared.options };
+    if (edit.title) options.title = edit.title; else delete options.title;
+    if (edit.labels.length > 0) options.labels = edit.labels; else delete options.labels;
+
+    const updated: PreparedUpload = { ...prepared, options };
+    if (prepared.summary) {
+      // ラベルはフォームで編集済みなので AI 提案は使わない
+      updated.summary = {
+        ...prepared.summary,
+        labels: [],
+        ...(edit.body !== undefined ? { summary: edit.body } : {}),
+      };
+    } else if (edit.body !== undefined) {
+      updated.file = { ...prepared.file, content: edit.body, size: Buffer.byteLength(edit.body, 'utf-8') };
+    }
+
+    await this.store.set(id, { ...pending, prepared: updated });
+    return this.buildPreviewMessage(id, updated, await githubService.buildPreview(updated));
+  }
+
+  /**
+   * 要約があれば要約を、なければ（短い）本文を編集対象にする。
+   */
+  static buildEditModal(id: string, pending: PendingPublish, preview: UploadPreview): ModalBuilder {
+    const { prepared } = pending;
+    const titleInput = new TextInputBuilder()
+      .setCustomId('title')
+      .setLabel('タイトル')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(100)
+      .setValue(preview.title);
+    const labels = [...(prepared.options.labels || []), ...(prepared.summary?.labels || [])];
+    const labelsInput = new TextInputBuilder()
+      .setCustomId('labels')
+      .setLabel('ラベル（カンマ区切り）')
+      .setStyle(TextInputStyle.Short)
+      .setRequired(false)
+      .setMaxLength(200)
+      .setValue(labels.join(', ').substring(0, 200));
+
+    const rows = [new ActionRowBuilder<TextInputBuilder>().addComponents(titleInput)];
+
+    const editableBody = prepared.summary
+      ? prepared.summary.summary
+      : prepared.file.content.length <= MODAL_TEXT_MAX_LENGTH ? prepared.file.content : null;
+    if (editableBody !== null) {
+      rows.push(new ActionRowBuilder<TextInputBuilder>().addComponents(
+        new TextInputBuilder()
+          .setCustomId('body')
+          .setLabel(prepared.summary ? '要約' : '本文')
+          .setStyle(TextInputStyle.Paragraph)
+          .setRequired(!prepared.summary)
+          .setMaxLength(MODAL_TEXT_MAX_LENGTH)
+          .setValue(editableBody.substring(0, MODAL_TEXT_MAX_LENGTH))
+      ));
+    }
+    rows.push(new ActionRowBuilder<TextInputBuilder>().addComponents(labelsInput));
+
+    return new ModalBuilder()
+      .setCustomId(`${PUBLISH_EDIT_MODAL_PREFIX}${id}`)
+      .setTitle('公開前に編集')
+      .addComponents(...rows);
+  }
+
+  private static buildPreviewMessage(id: string, prepared: PreparedUpload, preview: UploadPreview): BaseMessageOptions {
+    const lines = ['👀 公開前の確認です。内容を確認して「公開」を押してください（15分で破棄されます）。'];
+    // 要約対象がないなど、モデルが警告だけを返した場合は目立たせる
+    if (prepared.summary?.summary.trim().startsWith('⚠️')) {
+      lines.push('⚠️ 要約が生成されていません。公開する前に内容を確認してください。');
+    }
+
+    const body = preview.body.length > MAX_PREVIEW_BODY
+      ? preview.body.substring(0, MAX_PREVIEW_BODY - 1).trimEnd() + '…'
+      : preview.body;
+
+    const embed = {
+      color: 0x5865f2,
+      title: preview.title.substring(0, 256),
+      description: body,
+      fields: [
+        { name: '作成先', value: KIND_LABELS[preview.kind], inline: true },
+        { name: 'ラベル', value: preview.labels.join(', ') || 'なし', inline: true }
+      ]
+    };
+
+    const button = (action: PublishAction, label: string, style: ButtonStyle) =>
+      new ButtonBuilder()
+        .setCustomId(`${PUBLISH_BUTTON_PREFIX}${action}:${id}`)
+        .setLabel(label)
+        .setStyle(style);
+
+    return {
+      content: lines.join('\n'),
+      embeds: [embed],
+      components: [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          button('publish', '公開', ButtonStyle.Success),
+          button('edit', '編集', ButtonStyle.Secondary),
+          button('cancel', 'キャンセル', ButtonStyle.Danger)
+        )
+      ]
+    };
+  }
+}
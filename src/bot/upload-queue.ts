@@ -0,0 +1,420 @@
+import { APIEmbed, BaseMessageOptions, Client, Routes } from 'discord.js';
+import { Logger } from '../shared/logger';
+import { AppError, ErrorHandler } from '../shared/error-handler';
+import { Metrics } from '../shared/metrics';
+import { DeadLetter, Job, JobQueue } from '../shared/job-queue';
+import { ProcessedFile } from '../shared/types';
+import {
+  GitHubService,
+  GitHubUploadResult,
+  UploadOptions,
+  UploadSteps,
+  getUploadResultLabel
+} from '../api/services/github.service';
+import { OpenAIService } from '../api/services/openai.service';
+import { PublishConfirmation } from './publish-confirmation';
+
+/**
+ * 進捗・結果を書き込む Discord のメッセージ。
+ * interaction の場合は元の返信（@original）を編集する。トークンは15分で失効し、キューのファイルには保存しない（メモリにだけ持つ）。
+ */
+export type UploadReplyTarget =
+  | { type: 'message'; channelId: string; messageId: string }
+  | { type: 'interaction'; applicationId: string; interactionId: string; ephemeral: boolean; createdAt: string };
+
+// 完了時の返信の形。formatted は整形結果（UploadJob.formatted）のプレビューを付ける
+export type UploadCompletion =
+  | { type: 'created' }
+  | { type: 'file' }
+  | { type: 'formatted'; heading: string }
+  | { type: 'transcript'; messageCount: number; truncated?: boolean };
+
+/**
+ * 保存前に LLM で整形（PREP / PAS）する本文。整形結果は file.content の後ろに足して保存する。
+ */
+export interface UploadFormat {
+  style: 'prep' | 'pas';
+  text: string;
+}
+
+export interface UploadJob {
+  guildId: string;
+  channelId: string;
+  userId: string;
+  file: ProcessedFile;
+  options: UploadOptions;
+  reply: UploadReplyTarget;
+  completion: UploadCompletion;
+  sourceMessageId?: string;
+  // 保存元のメッセージに「保存しました」と返信する（右クリック保存。選択肢の返信は本人にしか見えないため）
+  announceOnSource?: boolean;
+  format?: UploadFormat;
+  // 以下はワーカーが書き込む途中経過。リトライ・再起動後に LLM の呼び出しや GitHub への作成をやり直さない
+  formatted?: string;
+  steps?: UploadSteps;
+}
+
+const INTERACTION_TOKEN_LIFETIME_MS = 15 * 60 * 1000;
+const MAX_FORMATTED_PREVIEW = 1500;
+const DEFAULT_CONCURRENCY = 1;
+
+/**
+ * 要約と GitHub への作成をバックグラウンドで行う永続キュー（DATA_PATH/queues/uploads.json）。
+ * Bot が途中で落ちても再起動後に続きから処理し、一時的な失敗はリトライ、最終的に失敗したものは dead letter に残す。
+ */
+export class UploadQueue {
+  private static queue = new JobQueue<UploadJob>('uploads', { concurrency: UploadQueue.getConcurrency() });
+  private static client: Client | null = null;
+  private static githubService: GitHubService | null = null;
+  private static openaiService: OpenAIService | null = null;
+  // interaction ID → トークン。再起動後は失われ、返信はトークン失効時と同じくチャンネル・DM に送る
+  private static interactionTokens = new Map<string, string>();
+
+  static getConcurrency(): number {
+    const v = parseInt(process.env.UPLOAD_QUEUE_CONCURRENCY || `${DEFAULT_CONCURRENCY}`, 10);
+    return Number.isFinite(v) && v > 0 ? v : DEFAULT_CONCURRENCY;
+  }
+
+  static async start(client: Client, githubService: GitHubService, openaiService: OpenAIService): Promise<void> {
+    this.client = client;
+    this.githubService = githubService;
+    this.openaiService = openaiService;
+    await this.queue.start(async job => {
+      await this.process(job);
+      this.forgetInteractionToken(job.payload);
+    }, {
+      // 設定不備や入力エラー（4xx）は何度やっても同じなのでリトライしない
+      isRetryable: error => !(error instanceof AppError) || error.statusCode >= 500,
+      onRetry: (job, error, delayMs) => this.notifyRetry(job, error, delayMs),
+      onDeadLetter: (job, error) => this.notifyFailure(job, error),
+      redactDeadLetter: job => this.redact(job),
+    });
+  }
+
+  static async stop(): Promise<void> {
+    await this.queue.stop();
+  }
+
+  /**
+   * reply が interaction の場合は、その返信を編集するためのトークンを interactionToken に渡す。
+   */
+  static async enqueue(job: UploadJob, interactionToken?: string): Promise<void> {
+    if (job.reply.type === 'interaction' && interactionToken) {
+      this.interactionTokens.set(job.reply.interactionId, interactionToken);
+    }
+    await this.queue.enqueue(job);
+    Logger.info('Upload job queued', { guildId: job.guildId, userId: job.userId, fileName: job.file.original_name });
+  }
+
+  /**
+   * idempotencyKey を claim してから、prepare で受付の返信を出してジョブを作り、キューに積む。
+   * 作成済み・受付済みの key なら何もせず false を返す。返信やキューへの追加に失敗した場合は claim を解放して投げ直す。
+   */
+  static async enqueueOnce(
+    githubService: GitHubService,
+    idempotencyKey: string | undefined,
+    prepare: () => Promise<UploadJob>,
+    interactionToken?: string
+  ): Promise<boolean> {
+    if (idempotencyKey && !(await githubService.claimUpload(idempotencyKey))) {
+      return false;
+    }
+
+    try {
+      await this.enqueue(await prepare(), interactionToken);
+      return true;
+    } catch (error) {
+      await githubService.releaseUpload(idempotencyKey);
+      throw error;
+    }
+  }
+
+  static async listDeadLetters(): Promise<DeadLetter<UploadJob>[]> {
+    return this.queue.listDeadLetters();
+  }
+
+  private static async process(job: Job<UploadJob>): Promise<void> {
+    const githubService = this.githubService;
+    if (!githubService) {
+      throw new Error('Upload queue is not started');
+    }
+    const { payload } = job;
+
+    // 作成後に落ちて再実行された場合は、要約や作成をやり直さずに結果の通知だけ行う
+    const previous = await githubService.findProcessedUpload(payload.options.idempotencyKey);
+    if (previous) {
+      await this.announceSafely(githubService, payload, previous);
+      return;
+    }
+
+    const file = await this.formatIfRequested(job);
+    const prepared = await githubService.prepareUpload(
+      payload.guildId,
+      payload.channelId,
+      payload.userId,
+      file,
+      payload.options,
+      async ({ completed, total }) => {
+        const subject = payload.completion.type === 'transcript'
+          ? `${payload.completion.messageCount}件のメッセージ`
+          : `「${payload.file.original_name}」`;
+        await this.editReply(payload, {
+          content: `⏳ ${subject}を${total}分割して要約しています… (${completed}/${total})`
+        }, false);
+      }
+    );
+
+    if (await PublishConfirmation.isRequired(payload.guildId)) {
+      const ephemeral = payload.reply.type === 'interaction' && payload.reply.ephemeral;
+      const preview = await PublishConfirmation.stage(githubService, prepared, {
+        ephemeral,
+        ...(payload.sourceMessageId ? { sourceMessageId: payload.sourceMessageId } : {}),
+      });
+      await this.editReply(payload, { ...preview, allowedMentions: { parse: [] } }, true);
+      return;
+    }
+
+    const result = await githubService.publishUpload(prepared, {
+      steps: payload.steps ??= {},
+      save: () => this.queue.update(job),
+    });
+    await this.announceSafely(githubService, payload, result);
+  }
+
+  /**
+   * format が指定されていれば LLM で整形し、整形結果を足したファイルを返す。
+   * 整形結果はジョブに保存し、リトライ時は LLM を呼び直さない。
+   */
+  private static async formatIfRequested(job: Job<UploadJob>): Promise<ProcessedFile> {
+    const { payload } = job;
+    if (!payload.format) {
+      return payload.file;
+    }
+    if (payload.formatted === undefined) {
+      const openaiService = this.openaiService;
+      if (!openaiService) {
+        throw new Error('Upload queue is not started');
+      }
+      await this.editReply(payload, { content: '⏳ 整形しています…' }, false);
+      payload.formatted = await openaiService.formatWithInsert(payload.format.text, payload.format.style, payload.guildId, payload.userId);
+      await this.queue.update(job);
+    }
+
+    const content = `${payload.file.content}\n\n---\n\n# ✨ 整形された文章\n\n${payload.formatted}`;
+    return { ...payload.file, content, size: Buffer.byteLength(content, 'utf-8') };
+  }
+
+  // dead letter には保存先や失敗の理由だけを残し、本文は残さない
+  private static redact(job: UploadJob): UploadJob {
+    const redacted: UploadJob = { ...job, file: { ...job.file, content: '' } };
+    delete redacted.formatted;
+    if (redacted.format) {
+      redacted.format = { ...redacted.format, text: '' };
+    }
+    return redacted;
+  }
+
+  private static forgetInteractionToken(job: UploadJob): void {
+    if (job.reply.type === 'interaction') {
+      this.interactionTokens.delete(job.reply.interactionId);
+    }
+  }
+
+  // 作成済みのジョブをリトライさせないよう、Discord への通知の失敗はログだけにする
+  private static async announceSafely(githubService: GitHubService, job: UploadJob, result: GitHubUploadResult): Promise<void> {
+    try {
+      await this.announce(githubService, job, result);
+      Metrics.recordDiscordMessage(job.guildId, 'success');
+    } catch (error) {
+      Logger.error('Failed to announce upload result', error as Error, { guildId: job.guildId, url: result.url });
+    }
+  }
+
+  private static async announce(githubService: GitHubService, job: UploadJob, result: GitHubUploadResult): Promise<void> {
+    const label = getUploadResultLabel(result);
+    const replyId = await this.editReply(job, this.buildCompletionMessage(job, result), true);
+
+    let linkMessageId = replyId;
+    if (job.announceOnSource && job.sourceMessageId) {
+      // 元メッセージが削除済み・返信の権限がないなどで失敗しても、作成は済んでいるのでログだけにする
+      try {
+        const channel = await this.getClient().channels.fetch(job.channelId);
+        if (channel?.isTextBased()) {
+          const source = await channel.messages.fetch(job.sourceMessageId);
+          const announcement = await source.reply({
+            content: `📎 <@${job.userId}> がこのメッセージを ${label} に保存しました: ${result.url}`,
+            allowedMentions: { parse: [] }
+          });
+          linkMessageId = announcement.id;
+        }
+      } catch (error) {
+        Logger.warn('Failed to reply to the source message', {
+          guildId: job.guildId,
+          sourceMessageId: job.sourceMessageId,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    if (linkMessageId) {
+      await githubService.recordDiscordLink(result, {
+        guildId: job.guildId,
+        channelId: job.channelId,
+        messageId: linkMessageId,
+        ...(job.sourceMessageId ? { sourceMessageId: job.sourceMessageId } : {})
+      });
+    }
+  }
+
+  private static buildCompletionMessage(job: UploadJob, result: GitHubUploadResult): BaseMessageOptions {
+    const label = getUploadResultLabel(result);
+    const { completion } = job;
+
+    switch (completion.type) {
+      case 'file':
+        return { content: '', embeds: [this.buildFileResultEmbed(job.file, result)], components: [] };
+
+      case 'formatted': {
+        const formatted = job.formatted || '';
+        const preview = formatted.length > MAX_FORMATTED_PREVIEW
+          ? formatted.substring(0, MAX_FORMATTED_PREVIEW - 1).trimEnd() + '…'
+          : formatted;
+        return { content: `${completion.heading}:\n\n${preview}\n\n📎 ${label}: ${result.url}`, embeds: [], components: [] };
+      }
+
+      case 'transcript':
+        return {
+          content: `✅ ${completion.messageCount}件のメッセージを${label}にまとめました: ${result.url}` +
+            (completion.truncated ? `\n⚠️ 取り込みの上限に達したため、それより前のメッセージは含まれていません。from / to で範囲を指定してください。` : ''),
+          embeds: [],
+          components: []
+        };
+
+      case 'created':
+        return { content: `✅ ${label} created: ${result.url}`, embeds: [], components: [] };
+    }
+  }
+
+  private static buildFileResultEmbed(file: ProcessedFile, result: GitHubUploadResult): APIEmbed {
+    const emoji = { issue: '🎯', gist: '📝', commit: '📁', pull_request: '🔀' }[result.kind];
+    const type = { issue: 'Issue', gist: 'Gist', commit: 'コミット', pull_request: 'Pull Request' }[result.kind];
+
+    const fields = [
+      {
+        name: '📄 ファイル情報',
+        value: `**名前:** ${file.original_name}\n**サイズ:** ${this.formatFileSize(file.size)}\n**タイプ:** ${file.type}`,
+        inline: true
+      },
+      {
+        name: `🔗 ${type}リンク`,
+        value: `[こちらから確認](${result.url})`,
+        inline: true
+      }
+    ];
+    if (result.kind !== 'commit' && result.commit) {
+      fields.push({
+        name: '📁 保存先',
+        value: `[${result.commit.path}](${result.commit.url})`,
+        inline: false
+      });
+    }
+
+    return {
+      color: 0x00ff00,
+      title: `${emoji} ${type}を作成しました`,
+      description: `ファイル「${file.original_name}」の処理が完了しました。`,
+      fields,
+      footer: {
+        text: 'Discord-GitHub Integration Bot',
+        icon_url: 'https://github.githubassets.com/images/modules/logos_page/GitHub-Mark.png'
+      },
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private static async notifyRetry(job: Job<UploadJob>, error: Error, delayMs: number): Promise<void> {
+    const minutes = Math.max(1, Math.round(delayMs / 60000));
+    await this.editReply(job.payload, {
+      content: `⚠️ 一時的なエラーのため、約${minutes}分後に再試行します（${job.attempts}回目の失敗）: ${ErrorHandler.getErrorMessage(error)}`
+    }, false);
+  }
+
+  private static async notifyFailure(job: Job<UploadJob>, error: Error): Promise<void> {
+    const { payload } = job;
+    await ErrorHandler.handleError(error, {
+      guildId: payload.guildId,
+      channelId: payload.channelId,
+      userId: payload.userId,
+      operation: 'file_upload'
+    });
+    Metrics.recordDiscordMessage(payload.guildId, 'error');
+    try {
+      await this.editReply(payload, {
+        content: `❌ 「${payload.file.original_name}」を保存できませんでした: ${ErrorHandler.getErrorMessage(error)}`,
+        embeds: [],
+        components: []
+      }, true);
+    } finally {
+      this.forgetInteractionToken(payload);
+      // 受付を取り消し、同じメッセージ・操作からもう一度保存できるようにする
+      await this.githubService?.releaseUpload(payload.options.idempotencyKey);
+    }
+  }
+
+  /**
+   * 進捗・結果の返信を編集し、編集したメッセージの ID を返す。
+   * interaction のトークン失効後は、fallback が true のときだけ新しいメッセージ（ephemeral だったものは DM）で送る。
+   */
+  private static async editReply(job: UploadJob, options: BaseMessageOptions, fallback: boolean): Promise<string | null> {
+    const client = this.getClient();
+    const { reply } = job;
+
+    try {
+      if (reply.type === 'message') {
+        const channel = await client.channels.fetch(reply.channelId);
+        if (!channel?.isTextBased()) return null;
+        const message = await channel.messages.edit(reply.messageId, options);
+        return message.id;
+      }
+
+      const token = this.interactionTokens.get(reply.interactionId);
+      if (token && Date.now() - new Date(reply.createdAt).getTime() < INTERACTION_TOKEN_LIFETIME_MS) {
+        const message = await client.rest.patch(
+          Routes.webhookMessage(reply.applicationId, token, '@original'),
+          { body: options }
+        ) as { id: string };
+        return message.id;
+      }
+      if (!fallback) return null;
+
+      if (reply.ephemeral) {
+        const user = await client.users.fetch(job.userId);
+        await user.send(options);
+        return null;
+      }
+      const channel = await client.channels.fetch(job.channelId);
+      if (!channel?.isTextBased() || channel.isDMBased()) return null;
+      const message = await channel.send(options);
+      return message.id;
+    } catch (error) {
+      if (fallback) throw error;
+      Logger.warn('Failed to update upload progress', { guildId: job.guildId, error: (error as Error).message });
+      return null;
+    }
+  }
+
+  private static getClient(): Client {
+    if (!this.client) {
+      throw new Error('Upload queue is not started');
+    }
+    return this.client;
+  }
+
+  private static formatFileSize(bytes: number): string {
+    const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+    if (bytes === 0) return '0 Bytes';
+
+    const i = Math.floor(Math.log(bytes) / Math.log(1024));
+    return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
+  }
+}
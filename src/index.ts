@@ -22,8 +22,7 @@ class Application {
       'DISCORD_BOT_TOKEN',
       'GITHUB_APP_ID',
       'GITHUB_APP_PRIVATE_KEY',
-      'GITHUB_WEBHOOK_SECRET',
-      'OPENAI_API_KEY'
+      'GITHUB_WEBHOOK_SECRET'
     ];
 
     const missingVars = requiredEnvVars.filter(envVar => !process.env[envVar]);
@@ -30,6 +30,9 @@ export class ValidationError extends AppError {
   }
 }
 
+// LLM の月間予算・利用回数の上限に達した（要約なしで続行できる処理はこれを見て分岐する）
+export class UsageLimitError extends ValidationError {}
+
 export class NotFoundError extends AppError {
   constructor(message: string, context?: Record<string, any>) {
     super(message, 404, true, context);
@@ -42,6 +45,12 @@ export class UnauthorizedError extends AppError {
   }
 }
 
+export class ForbiddenError extends AppError {
+  constructor(message: string, context?: Record<string, any>) {
+    super(message, 403, true, context);
+  }
+}
+
 export class ExternalServiceError extends AppError {
   constructor(service: string, message: string, context?: Record<string, any>) {
     super(`${service} service error: ${message}`, 502, true, {
@@ -51,6 +60,13 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+// 連続失敗により外部サービスの呼び出しを一時停止している（resilience の circuit breaker）
+export class CircuitOpenError extends ExternalServiceError {
+  constructor(service: string, context?: Record<string, any>) {
+    super(service, '連続して失敗しているため一時的に呼び出しを停止しています。しばらくしてから再度お試しください。', context);
+  }
+}
+
 export class ErrorHandler {
   static async handleError(error: Error, context?: {
     guildId?: string;
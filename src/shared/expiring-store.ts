@@ -0,0 +1,67 @@
+import { JsonStateFile } from './json-state-file';
+
+interface StoredEntry<T> {
+  value: T;
+  expires_at: number;
+}
+
+/**
+ * DATA_PATH/state/<name>.json に保存される、有効期限付きの小さなキー・バリューストア。
+ * Bot の再起動をまたいで保持したい一時状態（入力待ちなど）に使う。単一プロセスでの利用を前提とする。
+ */
+export class ExpiringStore<T> {
+  private readonly file: JsonStateFile<Record<string, StoredEntry<T>>>;
+
+  constructor(name: string, private readonly defaultTtlMs: number) {
+    this.file = new JsonStateFile(name, () => ({}));
+  }
+
+  async set(key: string, value: T, ttlMs: number = this.defaultTtlMs): Promise<void> {
+    const entries = await this.load();
+    entries[key] = { value, expires_at: Date.now() + ttlMs };
+    await this.persist();
+  }
+
+  async get(key: string): Promise<T | null> {
+    const entries = await this.load();
+    const entry = entries[key];
+    if (!entry || entry.expires_at <= Date.now()) return null;
+    return entry.value;
+  }
+
+  async delete(key: string): Promise<T | null> {
+    const entries = await this.load();
+    const entry = entries[key];
+    if (!entry) return null;
+    delete entries[key];
+    await this.persist();
+    return entry.expires_at > Date.now() ? entry.value : null;
+  }
+
+  /**
+   * 期限切れのエントリを取り除いて返す（期限切れ通知はこの戻り値を使う）。
+   */
+  async takeExpired(): Promise<Array<{ key: string; value: T }>> {
+    const entries = await this.load();
+    const now = Date.now();
+    const expired = Object.entries(entries)
+      .filter(([, entry]) => entry.expires_at <= now)
+      .map(([key, entry]) => ({ key, value: entry.value }));
+
+    if (expired.length > 0) {
+      for (const { key } of expired) {
+        delete entries[key];
+      }
+      await this.persist();
+    }
+    return expired;
+  }
+
+  private load(): Promise<Record<string, StoredEntry<T>>> {
+    return this.file.load();
+  }
+
+  private persist(): Promise<void> {
+    return this.file.persist();
+  }
+}
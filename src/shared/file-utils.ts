@@ -1,7 +1,7 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'js-yaml';
-import { GitHubInstallation, GuildMapping, OperationLog } from './types';
+import { AdminToken, GitHubInstallation, GuildMapping, OperationLog, IssueLink } from './types';
 
 const DATA_PATH = process.env.DATA_PATH || './data';
 
@@ -70,6 +70,34 @@ export class FileUtils {
     }
   }
 
+  static async listInstallations(): Promise<GitHubInstallation[]> {
+    const installationsDir = path.join(DATA_PATH, 'installations');
+    
+    try {
+      const files = await fs.readdir(installationsDir);
+      const installations: GitHubInstallation[] = [];
+      
+      for (const file of files) {
+        if (!file.endsWith('.yml')) continue;
+        
+        const installation = await this.readYamlFile<GitHubInstallation>(
+          path.join(installationsDir, file)
+        );
+        
+        if (installation) {
+          installations.push(installation);
+        }
+      }
+      
+      return installations;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+
   static async getGuildMapping(guildId: string): Promise<GuildMapping | null> {
     const filePath = path.join(DATA_PATH, 'guild_mappings', `${guildId}.yml`);
     return this.readYamlFile<GuildMapping>(filePath);
@@ -91,6 +119,14 @@ export class FileUtils {
     }
   }
 
+  static async getAdminTokens(): Promise<AdminToken[]> {
+    return (await this.readYamlFile<AdminToken[]>(path.join(DATA_PATH, 'admin_tokens.yml'))) || [];
+  }
+
+  static async saveAdminTokens(tokens: AdminToken[]): Promise<void> {
+    await this.writeYamlFile(path.join(DATA_PATH, 'admin_tokens.yml'), tokens);
+  }
+
   static async logOperation(operation: OperationLog): Promise<void> {
     const date = new Date().toISOString().split('T')[0];
     const logPath = path.join(DATA_PATH, 'operation_logs', `${date}.log`);
@@ -99,7 +135,54 @@ export class FileUtils {
     await this.appendLogFile(logPath, logEntry);
   }
 
-  static async findGuildsByInstallation(installationId: number): Promise<GuildMapping[]> {
+  /**
+   * 指定日（YYYY-MM-DD）の操作ログを読む。壊れた行は読み飛ばす。
+   */
+  static async readOperationLogs(date: string): Promise<OperationLog[]> {
+    const logPath = path.join(DATA_PATH, 'operation_logs', `${date}.log`);
+    let content: string;
+    try {
+      content = await fs.readFile(logPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const operations: OperationLog[] = [];
+    for (const line of content.split('\n')) {
+      // 各行は "<timestamp> <JSON>"（appendLogFile の形式）
+      const json = line.substring(line.indexOf(' ') + 1);
+      if (!json.trim()) continue;
+      try {
+        operations.push(JSON.parse(json) as OperationLog);
+      } catch {
+        // 書き込み途中の行などは無視
+      }
+    }
+    return operations;
+  }
+
+  // Issue ↔ Discord メッセージの紐付け。Issue 側と Bot の返信メッセージ側の両方から引けるよう2箇所に保存する
+  static async saveIssueLink(link: IssueLink): Promise<void> {
+    await this.writeYamlFile(this.getIssueLinkPath(link.owner, link.repo, link.issue_number), link);
+    await this.writeYamlFile(path.join(DATA_PATH, 'issue_links', 'messages', `${link.message_id}.yml`), link);
+  }
+
+  static async getIssueLink(owner: string, repo: string, issueNumber: number): Promise<IssueLink | null> {
+    return this.readYamlFile<IssueLink>(this.getIssueLinkPath(owner, repo, issueNumber));
+  }
+
+  static async getIssueLinkByMessage(messageId: string): Promise<IssueLink | null> {
+    return this.readYamlFile<IssueLink>(path.join(DATA_PATH, 'issue_links', 'messages', `${messageId}.yml`));
+  }
+
+  private static getIssueLinkPath(owner: string, repo: string, issueNumber: number): string {
+    return path.join(DATA_PATH, 'issue_links', owner.toLowerCase(), repo.toLowerCase(), `${issueNumber}.yml`);
+  }
+
+  static async listGuildMappings(): Promise<GuildMapping[]> {
     const guildsDir = path.join(DATA_PATH, 'guild_mappings');
     
     try {
@@ -113,7 +196,7 @@ export class FileUtils {
           path.join(guildsDir, file)
         );
         
-        if (mapping && mapping.installation_id === installationId) {
+        if (mapping) {
           mappings.push(mapping);
         }
       }
@@ -126,4 +209,9 @@ export class FileUtils {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  static async findGuildsByInstallation(installationId: number): Promise<GuildMapping[]> {
+    const mappings = await this.listGuildMappings();
+    return mappings.filter(mapping => mapping.installation_id === installationId);
+  }
+}
@@ -0,0 +1,112 @@
+import { JsonStateFile } from './json-state-file';
+
+interface ProcessedEntry<T> {
+  // claim で受付済み（処理待ち・処理中）のものは value を持たない
+  value?: T;
+  processed_at: number;
+}
+
+export interface IdempotentResult<T> {
+  value: T;
+  // 処理済み（または同じキーを処理中）だったため、前回の結果を返した
+  duplicate: boolean;
+}
+
+const DEFAULT_MAX_ENTRIES = 5000;
+
+/**
+ * 処理済みの ID（Discord のメッセージ ID、GitHub の x-github-delivery など）と、その処理結果を
+ * DATA_PATH/state/<name>.json に保存する。件数の上限を超えたら古いものから捨てる。単一プロセスでの利用を前提とする。
+ */
+export class IdempotencyStore<T> {
+  private readonly file: JsonStateFile<Record<string, ProcessedEntry<T>>>;
+  private inFlight = new Map<string, Promise<T>>();
+
+  constructor(name: string, private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {
+    this.file = new JsonStateFile(name, () => ({}));
+  }
+
+  async get(key: string): Promise<T | null> {
+    const entries = await this.load();
+    return entries[key]?.value ?? null;
+  }
+
+  /**
+   * 処理をキューなどに回す前に key を受付済みとして記録する。処理済み・受付済みの key なら false を返す。
+   * 受付済みの key でも run は fn を実行する（受け付けた処理そのものが run を呼ぶため）。
+   */
+  async claim(key: string): Promise<boolean> {
+    const entries = await this.load();
+    if (entries[key] || this.inFlight.has(key)) {
+      return false;
+    }
+    entries[key] = { processed_at: Date.now() };
+    this.trim(entries);
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * claim した key の受付を取り消す（受付や処理が最終的に失敗し、再送・再操作でやり直せるようにする）。処理済みの key は消さない。
+   */
+  async release(key: string): Promise<void> {
+    const entries = await this.load();
+    if (entries[key] && entries[key].value === undefined) {
+      delete entries[key];
+      await this.persist();
+    }
+  }
+
+  /**
+   * key が未処理なら fn を実行して結果を記録する。処理済みなら fn を呼ばずに前回の結果を返す。
+   * 同じ key が並行して来た場合は、先の実行の結果を共有する。fn が失敗した場合は記録しない（再送で再実行できる）。
+   */
+  async run(key: string, fn: () => Promise<T>): Promise<IdempotentResult<T>> {
+    const running = this.inFlight.get(key);
+    if (running) {
+      return { value: await running, duplicate: true };
+    }
+
+    // 記録の読み込みを待つ間に同じ key が来ても fn を二重に実行しないよう、await する前に実行中として登録する
+    let executed = false;
+    const execution = (async () => {
+      const previous = await this.get(key);
+      if (previous !== null) return previous;
+      executed = true;
+      const value = await fn();
+      await this.set(key, value);
+      return value;
+    })();
+    this.inFlight.set(key, execution);
+    try {
+      return { value: await execution, duplicate: !executed };
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async set(key: string, value: T): Promise<void> {
+    const entries = await this.load();
+    entries[key] = { value, processed_at: Date.now() };
+    this.trim(entries);
+    await this.persist();
+  }
+
+  private trim(entries: Record<string, ProcessedEntry<T>>): void {
+    const keys = Object.keys(entries);
+    if (keys.length > this.maxEntries) {
+      keys
+        .sort((a, b) => entries[a]!.processed_at - entries[b]!.processed_at)
+        .slice(0, keys.length - this.maxEntries)
+        .forEach(oldest => delete entries[oldest]);
+    }
+  }
+
+  private load(): Promise<Record<string, ProcessedEntry<T>>> {
+    return this.file.load();
+  }
+
+  private persist(): Promise<void> {
+    return this.file.persist();
+  }
+}
@@ -0,0 +1,253 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Logger } from './logger';
+import { Metrics } from './metrics';
+
+export interface Job<T> {
+  id: string;
+  payload: T;
+  status: 'queued' | 'running';
+  attempts: number;
+  // この時刻（ms）以降に実行する（リトライの待機）
+  run_at: number;
+  created_at: string;
+  last_error?: string;
+}
+
+export interface DeadLetter<T> {
+  id: string;
+  payload: T;
+  attempts: number;
+  created_at: string;
+  failed_at: string;
+  error: string;
+}
+
+export interface JobQueueOptions {
+  maxAttempts?: number;
+  // 1回目のリトライまでの待機。以降は倍々にする
+  retryDelayMs?: number;
+  pollIntervalMs?: number;
+  concurrency?: number;
+  maxDeadLetters?: number;
+}
+
+export interface JobQueueHooks<T> {
+  // false を返したエラーはリトライせずに dead letter にする
+  isRetryable?: (error: Error) => boolean;
+  onRetry?: (job: Job<T>, error: Error, delayMs: number) => Promise<void> | void;
+  onDeadLetter?: (job: Job<T>, error: Error) => Promise<void> | void;
+  // dead letter としてファイルに残す前に、残したくない内容（本文など）を payload から除く
+  redactDeadLetter?: (payload: T) => T;
+}
+
+interface QueueState<T> {
+  jobs: Job<T>[];
+  dead: DeadLetter<T>[];
+}
+
+const DEFAULT_OPTIONS: Required<JobQueueOptions> = {
+  maxAttempts: 3,
+  retryDelayMs: 30_000,
+  pollIntervalMs: 5_000,
+  concurrency: 1,
+  maxDeadLetters: 100,
+};
+
+/**
+ * DATA_PATH/queues/<name>.json に保存される永続ジョブキュー。単一プロセスでの利用を前提とする。
+ * 実行中にプロセスが落ちたジョブは、次回 start 時に先頭から実行し直す。
+ */
+export class JobQueue<T> {
+  private readonly filePath: string;
+  private readonly options: Required<JobQueueOptions>;
+  private state: QueueState<T> | null = null;
+  private loading: Promise<QueueState<T>> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private handler: ((job: Job<T>) => Promise<void>) | null = null;
+  private hooks: JobQueueHooks<T> = {};
+  private timer: NodeJS.Timeout | undefined;
+  private inFlight = new Map<string, Promise<void>>();
+
+  constructor(private readonly name: string, options: JobQueueOptions = {}) {
+    this.filePath = path.join(process.env.DATA_PATH || './data', 'queues', `${name}.json`);
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async enqueue(payload: T): Promise<Job<T>> {
+    const state = await this.load();
+    const job: Job<T> = {
+      id: randomUUID(),
+      payload,
+      status: 'queued',
+      attempts: 0,
+      run_at: Date.now(),
+      created_at: new Date().toISOString(),
+    };
+    state.jobs.push(job);
+    await this.persist();
+    this.kick();
+    return job;
+  }
+
+  async start(handler: (job: Job<T>) => Promise<void>, hooks: JobQueueHooks<T> = {}): Promise<void> {
+    this.handler = handler;
+    this.hooks = hooks;
+
+    const state = await this.load();
+    const interrupted = state.jobs.filter(job => job.status === 'running');
+    if (interrupted.length > 0) {
+      for (const job of interrupted) {
+        job.status = 'queued';
+      }
+      await this.persist();
+      Logger.warn(`Resuming interrupted jobs in ${this.name} queue`, { count: interrupted.length });
+    }
+
+    this.timer = setInterval(() => this.kick(), this.options.pollIntervalMs);
+    this.kick();
+  }
+
+  /**
+   * ポーリングを止め、実行中のジョブの完了を待つ。
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.handler = null;
+    await Promise.allSettled(this.inFlight.values());
+    await this.writeQueue.catch(() => undefined);
+  }
+
+  /**
+   * 実行中のジョブの payload に加えた変更（途中経過）を保存する。リトライや再起動後の実行はその続きから行える。
+   */
+  async update(job: Job<T>): Promise<void> {
+    const state = await this.load();
+    if (state.jobs.some(j => j.id === job.id)) {
+      await this.persist();
+    }
+  }
+
+  async getPendingCount(): Promise<number> {
+    return (await this.load()).jobs.length;
+  }
+
+  async listDeadLetters(): Promise<DeadLetter<T>[]> {
+    return [...(await this.load()).dead];
+  }
+
+  private kick(): void {
+    this.tick().catch(error => Logger.error(`Job queue ${this.name} tick failed`, error as Error));
+  }
+
+  private async tick(): Promise<void> {
+    if (!this.handler) return;
+    const state = await this.load();
+    const now = Date.now();
+
+    while (this.inFlight.size < this.options.concurrency) {
+      const job = state.jobs.find(j => j.status === 'queued' && j.run_at <= now);
+      if (!job) break;
+      job.status = 'running';
+      job.attempts++;
+
+      // 同時に呼ばれた tick が並列数を超えないよう、await する前に実行中として登録する
+      const run = this.persist()
+        .then(() => this.run(job))
+        .finally(() => {
+          this.inFlight.delete(job.id);
+          this.kick();
+        });
+      this.inFlight.set(job.id, run);
+    }
+    Metrics.setQueueDepth(this.name, state.jobs.length);
+  }
+
+  private async run(job: Job<T>): Promise<void> {
+    const handler = this.handler;
+    if (!handler) return;
+    const state = await this.load();
+
+    try {
+      await handler(job);
+      state.jobs = state.jobs.filter(j => j.id !== job.id);
+      await this.persist();
+      Metrics.recordJob(this.name, 'success');
+    } catch (error) {
+      const err = error as Error;
+      const retryable = this.hooks.isRetryable ? this.hooks.isRetryable(err) : true;
+
+      if (retryable && job.attempts < this.options.maxAttempts) {
+        const delay = this.options.retryDelayMs * 2 ** (job.attempts - 1);
+        job.status = 'queued';
+        job.run_at = Date.now() + delay;
+        job.last_error = err.message;
+        await this.persist();
+        Metrics.recordJob(this.name, 'retry');
+        Logger.warn(`Job ${job.id} in ${this.name} queue failed; retrying`, { attempts: job.attempts, delayMs: delay, error: err.message });
+        await this.callHook(() => this.hooks.onRetry?.(job, err, delay));
+        return;
+      }
+
+      state.jobs = state.jobs.filter(j => j.id !== job.id);
+      state.dead.push({
+        id: job.id,
+        payload: this.hooks.redactDeadLetter ? this.hooks.redactDeadLetter(job.payload) : job.payload,
+        attempts: job.attempts,
+        created_at: job.created_at,
+        failed_at: new Date().toISOString(),
+        error: err.message,
+      });
+      // 古いものから捨てる
+      state.dead = state.dead.slice(-this.options.maxDeadLetters);
+      await this.persist();
+      Metrics.recordJob(this.name, 'dead');
+      Logger.error(`Job ${job.id} in ${this.name} queue moved to dead letters`, err, { attempts: job.attempts });
+      await this.callHook(() => this.hooks.onDeadLetter?.(job, err));
+    }
+  }
+
+  private async callHook(fn: () => Promise<void> | void | undefined): Promise<void> {
+    try {
+      await fn();
+    } catch (error) {
+      Logger.warn(`Job queue ${this.name} hook failed`, { error: (error as Error).message });
+    }
+  }
+
+  private load(): Promise<QueueState<T>> {
+    // 初回読み込みが並行しても同じ状態オブジェクトを共有する
+    this.loading ??= (async () => {
+      try {
+        const raw = await fs.readFile(this.filePath, 'utf-8');
+        this.state = JSON.parse(raw) as QueueState<T>;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          this.loading = null;
+          throw error;
+        }
+        this.state = { jobs: [], dead: [] };
+      }
+      return this.state;
+    })();
+    return this.loading;
+  }
+
+  // 書き込みは直列化し、一時ファイル経由で置き換える
+  private persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.state || { jobs: [], dead: [] }, null, 2);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fs.writeFile(tmp, snapshot, 'utf-8');
+        await fs.rename(tmp, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
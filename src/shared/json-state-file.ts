@@ -0,0 +1,52 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+/**
+ * DATA_PATH/state/<name>.json に保存する、ストア用の JSON オブジェクト。
+ * 初回だけファイルから読み、以降は同じオブジェクトを使う。書き込みは直列化し、一時ファイル経由で置き換える。
+ * 単一プロセスでの利用を前提とする。
+ */
+export class JsonStateFile<T extends object> {
+  private readonly filePath: string;
+  private data: T | null = null;
+  private loading: Promise<T> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(name: string, private readonly initial: () => T) {
+    this.filePath = path.join(process.env.DATA_PATH || './data', 'state', `${name}.json`);
+  }
+
+  load(): Promise<T> {
+    // 初回読み込みが並行しても同じオブジェクトを共有する（片方の変更がもう片方の読み込み結果で上書きされないように）
+    this.loading ??= (async () => {
+      try {
+        const raw = await fs.readFile(this.filePath, 'utf-8');
+        this.data = JSON.parse(raw) as T;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          this.loading = null;
+          throw error;
+        }
+        this.data = this.initial();
+      }
+      return this.data;
+    })();
+    return this.loading;
+  }
+
+  /**
+   * load() で得たオブジェクトの現在の内容を書き込む。
+   */
+  persist(): Promise<void> {
+    const snapshot = JSON.stringify(this.data ?? this.initial(), null, 2);
+    this.writeQueue = this.writeQueue
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmp = `${this.filePath}.tmp`;
+        await fs.writeFile(tmp, snapshot, 'utf-8');
+        await fs.rename(tmp, this.filePath);
+      });
+    return this.writeQueue;
+  }
+}
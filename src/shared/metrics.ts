@@ -36,6 +36,43 @@ export const openaiApiCalls = new Counter({
   labelNames: ['model', 'status'],
 });
 
+export const llmTokens = new Counter({
+  name: 'discord_github_bot_llm_tokens_total',
+  help: 'Total number of LLM tokens used',
+  labelNames: ['guild_id', 'operation', 'type'],
+});
+
+export const llmCost = new Counter({
+  name: 'discord_github_bot_llm_estimated_cost_usd_total',
+  help: 'Estimated LLM cost in USD',
+  labelNames: ['guild_id', 'operation'],
+});
+
+export const apiRetries = new Counter({
+  name: 'discord_github_bot_api_retries_total',
+  help: 'Total number of retried external API calls',
+  labelNames: ['service'],
+});
+
+// 0: closed, 1: half_open, 2: open
+export const circuitBreakerState = new Gauge({
+  name: 'discord_github_bot_circuit_breaker_state',
+  help: 'Worst circuit breaker state across guilds / installations per external service (0=closed, 1=half_open, 2=open)',
+  labelNames: ['service'],
+});
+
+export const queueJobs = new Counter({
+  name: 'discord_github_bot_queue_jobs_total',
+  help: 'Total number of processed background jobs',
+  labelNames: ['queue', 'status'],
+});
+
+export const queueDepth = new Gauge({
+  name: 'discord_github_bot_queue_depth',
+  help: 'Number of queued or running background jobs',
+  labelNames: ['queue'],
+});
+
 export const fileProcessingDuration = new Histogram({
   name: 'discord_github_bot_file_processing_duration_seconds',
   help: 'File processing duration in seconds',
@@ -85,6 +122,35 @@ export class Metrics {
     openaiApiCalls.inc({ model, status });
   }
 
+  static recordLLMUsage(
+    guildId: string,
+    operation: string,
+    promptTokens: number,
+    completionTokens: number,
+    costUsd: number
+  ): void {
+    llmTokens.inc({ guild_id: guildId, operation, type: 'prompt' }, promptTokens);
+    llmTokens.inc({ guild_id: guildId, operation, type: 'completion' }, completionTokens);
+    llmCost.inc({ guild_id: guildId, operation }, costUsd);
+  }
+
+  static recordApiRetry(service: string): void {
+    apiRetries.inc({ service });
+  }
+
+  static setCircuitBreakerState(service: string, state: 'closed' | 'half_open' | 'open'): void {
+    const values = { closed: 0, half_open: 1, open: 2 };
+    circuitBreakerState.set({ service }, values[state]);
+  }
+
+  static recordJob(queue: string, status: 'success' | 'retry' | 'dead'): void {
+    queueJobs.inc({ queue, status });
+  }
+
+  static setQueueDepth(queue: string, depth: number): void {
+    queueDepth.set({ queue }, depth);
+  }
+
   static recordFileProcessing(fileType: string, duration: number): void {
     fileProcessingDuration.observe({ file_type: fileType }, duration);
   }
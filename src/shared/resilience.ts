@@ -0,0 +1,270 @@
+import { AppError, CircuitOpenError } from './error-handler';
+import { Logger } from './logger';
+import { Metrics } from './metrics';
+
+export type ResilientService = 'openai' | 'github';
+
+export type CircuitState = 'closed' | 'half_open' | 'open';
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: string;
+}
+
+export interface ServiceCircuitStatus {
+  // スコープ（guild / installation）ごとの breaker のうち最も悪い状態
+  state: CircuitState;
+  openBreakers: number;
+}
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  // サーバーがこれより長い待機を求めた場合は待たずに失敗させる
+  maxDelayMs?: number;
+}
+
+const DEFAULT_RETRY: Required<RetryOptions> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 60_000,
+};
+
+const FAILURE_THRESHOLD = 5;
+const OPEN_DURATION_MS = 30_000;
+
+const RETRYABLE_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE']);
+
+/**
+ * 外部サービス × スコープ（guild や installation）ごとの circuit breaker。
+ * 一時的な失敗（リトライ対象のエラーでリトライしきったもの）が続いたら open にし、
+ * 一定時間後に1件だけ試して（half_open）成功すれば closed に戻す。
+ */
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly onTransition: () => void
+  ) {}
+
+  /**
+   * 呼び出してよいか。open の期間が過ぎていれば half_open にして1件だけ通す。
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < OPEN_DURATION_MS) {
+        return false;
+      }
+      this.transition('half_open');
+    }
+    if (this.state === 'half_open') {
+      if (this.trialInFlight) {
+        return false;
+      }
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  onSuccess(): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures = 0;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  onFailure(transient: boolean): void {
+    this.trialInFlight = false;
+    if (!transient) {
+      // 400/404 などはサービスの不調ではない。half_open の試行なら結果として閉じてよい
+      if (this.state === 'half_open') this.transition('closed');
+      return;
+    }
+    this.consecutiveFailures++;
+    if (this.state === 'half_open' || this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.state !== 'closed' ? { openedAt: new Date(this.openedAt).toISOString() } : {}),
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    Logger.warn(`Circuit breaker ${this.name}: ${this.state} -> ${state}`, {
+      consecutiveFailures: this.consecutiveFailures,
+    });
+    this.state = state;
+    this.onTransition();
+  }
+}
+
+const STATE_SEVERITY: Record<CircuitState, number> = { closed: 0, half_open: 1, open: 2 };
+
+/**
+ * OpenAI / GitHub 呼び出しのリトライ（指数バックオフ + Retry-After / GitHub のレート制限ヘッダ）と circuit breaker。
+ * breaker は scope（LLM は guild ID、GitHub は installation ID）ごとに持ち、
+ * ある guild の API キーや installation の不調が他の guild の呼び出しを止めないようにする。
+ */
+export class Resilience {
+  private static breakers = new Map<ResilientService, Map<string, CircuitBreaker>>();
+
+  static async execute<T>(
+    service: ResilientService,
+    scope: string | number,
+    fn: () => Promise<T>,
+    options: RetryOptions = {}
+  ): Promise<T> {
+    const { maxRetries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY, ...options };
+    const breaker = this.getBreaker(service, String(scope));
+    if (!breaker.tryAcquire()) {
+      throw new CircuitOpenError(service === 'openai' ? 'LLM' : 'GitHub', { breaker: service, scope: String(scope) });
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await fn();
+        breaker.onSuccess();
+        return result;
+      } catch (error) {
+        const transient = this.isRetryable(error);
+        const delay = transient ? this.getRetryDelay(error, attempt, baseDelayMs) : null;
+        if (!transient || attempt >= maxRetries || delay === null || delay > maxDelayMs) {
+          breaker.onFailure(transient);
+          throw error;
+        }
+
+        Logger.warn(`Retrying ${service} call`, {
+          scope: String(scope),
+          attempt: attempt + 1,
+          maxRetries,
+          delayMs: delay,
+          status: this.getStatus(error),
+          error: (error as Error).message,
+        });
+        Metrics.recordApiRetry(service);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  static isOpen(service: ResilientService, scope: string | number): boolean {
+    return this.breakers.get(service)?.get(String(scope))?.getStatus().state === 'open';
+  }
+
+  static getStatuses(): Record<ResilientService, ServiceCircuitStatus> {
+    return {
+      openai: this.getServiceStatus('openai'),
+      github: this.getServiceStatus('github'),
+    };
+  }
+
+  /**
+   * 429 / 5xx / ネットワークエラー / GitHub の二次レート制限（403 + Retry-After など）をリトライ対象とする。
+   */
+  static isRetryable(error: unknown): boolean {
+    const status = this.getStatus(error);
+    if (status === 429 || (status !== undefined && status >= 500)) {
+      return true;
+    }
+    if (status === 403) {
+      const message = (error as Error).message || '';
+      return this.getHeader(error, 'retry-after') !== undefined
+        || this.getHeader(error, 'x-ratelimit-remaining') === '0'
+        || /secondary rate limit/i.test(message);
+    }
+    if (status === undefined) {
+      // fetch の失敗は TypeError('fetch failed') の cause に code が入る
+      const e = error as { code?: unknown; name?: string; cause?: { code?: unknown } } | undefined;
+      const code = e?.code ?? e?.cause?.code;
+      return (typeof code === 'string' && RETRYABLE_NETWORK_CODES.has(code)) || (e?.name || '').startsWith('APIConnection');
+    }
+    return false;
+  }
+
+  /**
+   * 待機時間（ms）。Retry-After（秒 or HTTP 日付）→ x-ratelimit-reset → 指数バックオフ（ジッター付き）の順に決める。
+   */
+  static getRetryDelay(error: unknown, attempt: number, baseDelayMs: number = DEFAULT_RETRY.baseDelayMs): number {
+    const retryAfter = this.getHeader(error, 'retry-after');
+    if (retryAfter !== undefined) {
+      const seconds = Number(retryAfter);
+      if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds * 1000);
+      }
+      const date = Date.parse(retryAfter);
+      if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+      }
+    }
+
+    const reset = this.getHeader(error, 'x-ratelimit-reset');
+    if (this.getHeader(error, 'x-ratelimit-remaining') === '0' && reset !== undefined && Number.isFinite(Number(reset))) {
+      return Math.max(0, Number(reset) * 1000 - Date.now());
+    }
+
+    const backoff = baseDelayMs * 2 ** attempt;
+    return backoff + Math.floor(Math.random() * baseDelayMs);
+  }
+
+  private static getBreaker(service: ResilientService, scope: string): CircuitBreaker {
+    let scoped = this.breakers.get(service);
+    if (!scoped) {
+      scoped = new Map();
+      this.breakers.set(service, scoped);
+    }
+    let breaker = scoped.get(scope);
+    if (!breaker) {
+      breaker = new CircuitBreaker(`${service}:${scope}`, () => {
+        Metrics.setCircuitBreakerState(service, this.getServiceStatus(service).state);
+      });
+      scoped.set(scope, breaker);
+    }
+    return breaker;
+  }
+
+  private static getServiceStatus(service: ResilientService): ServiceCircuitStatus {
+    let state: CircuitState = 'closed';
+    let openBreakers = 0;
+    for (const breaker of this.breakers.get(service)?.values() ?? []) {
+      const status = breaker.getStatus();
+      if (status.state === 'open') openBreakers++;
+      if (STATE_SEVERITY[status.state] > STATE_SEVERITY[state]) state = status.state;
+    }
+    return { state, openBreakers };
+  }
+
+  // Octokit の RequestError / openai の APIError は status を、AppError は context.status を持つ
+  private static getStatus(error: unknown): number | undefined {
+    const status = error instanceof AppError ? error.context?.status : (error as { status?: unknown })?.status;
+    return typeof status === 'number' ? status : undefined;
+  }
+
+  private static getHeader(error: unknown, name: string): string | undefined {
+    const e = error as {
+      headers?: unknown;
+      response?: { headers?: unknown };
+      context?: { headers?: unknown };
+    } | undefined;
+    for (const headers of [e?.headers, e?.response?.headers, e?.context?.headers]) {
+      if (!headers || typeof headers !== 'object') continue;
+      const value = typeof (headers as Headers).get === 'function'
+        ? (headers as Headers).get(name)
+        : (headers as Record<string, unknown>)[name];
+      if (typeof value === 'string' && value !== '') return value;
+      if (typeof value === 'number') return String(value);
+    }
+    return undefined;
+  }
+}
@@ -144,7 +144,11 @@ export class SecretStore {
 }
 
 export const SECRET_KEYS = {
+  // プロバイダに関わらず LLM の APIキーはこのキーに保存する（互換のため名前は openai のまま）
   openai: 'openai_api_key',
+  llmProvider: 'llm_provider',
+  llmModel: 'llm_model',
+  llmBaseUrl: 'llm_base_url',
 } as const;
 
 export function maskKey(k: string): string {
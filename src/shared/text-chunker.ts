@@ -0,0 +1,77 @@
+/**
+ * LLM のコンテキストに収まるよう長いテキストを分割する。
+ * トークナイザは使わず、ASCII は約4文字で1トークン、それ以外（日本語など）は1文字1トークンとして見積もる。
+ */
+export class TextChunker {
+  static estimateTokens(text: string): number {
+    let ascii = 0;
+    let other = 0;
+    for (const ch of text) {
+      if (ch.charCodeAt(0) < 0x80) {
+        ascii++;
+      } else {
+        other++;
+      }
+    }
+    return Math.ceil(ascii / 4) + other;
+  }
+
+  /**
+   * 行単位でまとめ、各チャンクが maxTokens を超えないように分割する。
+   * 1行だけで上限を超える場合はその行を文字単位で切る。
+   */
+  static split(text: string, maxTokens: number): string[] {
+    if (maxTokens <= 0) {
+      throw new Error('maxTokens must be positive');
+    }
+
+    const chunks: string[] = [];
+    let current: string[] = [];
+    let currentTokens = 0;
+
+    const flush = () => {
+      if (current.length > 0) {
+        chunks.push(current.join('\n'));
+        current = [];
+        currentTokens = 0;
+      }
+    };
+
+    for (const line of text.split('\n')) {
+      const lineTokens = this.estimateTokens(line) + 1; // 改行分
+      if (lineTokens > maxTokens) {
+        flush();
+        chunks.push(...this.splitLongLine(line, maxTokens));
+        continue;
+      }
+      if (currentTokens + lineTokens > maxTokens) {
+        flush();
+      }
+      current.push(line);
+      currentTokens += lineTokens;
+    }
+    flush();
+
+    return chunks;
+  }
+
+  private static splitLongLine(line: string, maxTokens: number): string[] {
+    const parts: string[] = [];
+    let part = '';
+    let partTokens = 0;
+    for (const ch of line) {
+      const tokens = ch.charCodeAt(0) < 0x80 ? 0.25 : 1;
+      if (partTokens + tokens > maxTokens) {
+        parts.push(part);
+        part = '';
+        partTokens = 0;
+      }
+      part += ch;
+      partTokens += tokens;
+    }
+    if (part) {
+      parts.push(part);
+    }
+    return parts;
+  }
+}
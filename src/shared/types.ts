@@ -17,6 +17,25 @@ export interface GitHubInstallation {
   suspended_at?: string;
 }
 
+export type SaveMode = 'issue' | 'commit' | 'both' | 'pr';
+
+// LLM を呼ぶ処理の種類（Issue 要約 / insert・article 整形 / ツイート要約）
+export type LLMOperation = 'summary' | 'format' | 'tweet';
+
+// LLM の利用上限（未設定の項目は無制限）
+export interface LLMBudget {
+  monthly_token_limit?: number;
+  monthly_cost_limit_usd?: number;
+  // ユーザーごとの1時間あたりの呼び出し回数
+  user_hourly_limit?: number;
+}
+
+export interface LLMOperationSettings {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+}
+
 export interface GuildMapping {
   guild_id: string;
   guild_name: string;
@@ -32,6 +51,26 @@ export interface GuildMapping {
       owner: string;
       name: string;
     };
+    save_mode?: SaveMode;
+    // このチャンネルから作成する Issue / PR に必ず付けるラベル
+    labels?: string[];
+    // false ならこのチャンネルでは要約しない
+    summarize?: boolean;
+  }>;
+  issue_title_template?: string;
+  save_mode?: SaveMode;
+  commit_path_pattern?: string;
+  commit_branch?: string;
+  commit_front_matter?: boolean;
+  confirm_before_publish?: boolean;
+  llm_settings?: Partial<Record<LLMOperation, LLMOperationSettings>>;
+  llm_budget?: LLMBudget;
+  // リポジトリのアクセス解除など、管理者向けの通知を送るチャンネル
+  admin_channel_id?: string;
+  // 紐付け先（既定 / チャンネル別）のうち、GitHub App のアクセス対象から外されたリポジトリ（owner/name）
+  removed_repos?: Array<{
+    full_name: string;
+    removed_at: string;
   }>;
   created_at: string;
   updated_at: string;
@@ -43,7 +82,7 @@ export interface OperationLog {
   guild_id: string;
   channel_id: string;
   user_id: string;
-  operation_type: 'file_upload' | 'issue_creation' | 'gist_creation' | 'webhook';
+  operation_type: 'file_upload' | 'issue_creation' | 'gist_creation' | 'commit_creation' | 'pr_creation' | 'webhook' | 'llm_completion';
   status: 'success' | 'error' | 'warning';
   details: {
     file_name?: string;
@@ -52,9 +91,38 @@ export interface OperationLog {
     github_url?: string;
     error_message?: string;
     ai_summary_length?: number;
+    // llm_completion のみ
+    llm_operation?: LLMOperation;
+    llm_provider?: string;
+    model?: string;
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    estimated_cost_usd?: number;
   };
 }
 
+export interface IssueLink {
+  owner: string;
+  repo: string;
+  issue_number: number;
+  issue_url: string;
+  guild_id: string;
+  channel_id: string;
+  message_id: string;
+  source_message_id?: string;
+  created_at: string;
+}
+
+// /api/setup を呼ぶための管理用 API トークン。トークン自体は保存せず SHA-256 のハッシュだけを持つ
+export interface AdminToken {
+  id: string;
+  name: string;
+  token_hash: string;
+  // 操作できるギルド（省略時はすべてのギルド）
+  guild_ids?: string[];
+  created_at: string;
+}
+
 export interface ProcessedFile {
   original_name: string;
   content: string;
@@ -70,6 +138,20 @@ export interface GitHubCreateIssueRequest {
   assignees?: string[];
 }
 
+export interface GitHubCreateFileRequest {
+  path: string;
+  message: string;
+  content: string;
+  branch?: string;
+}
+
+export interface GitHubCreatePullRequestRequest {
+  title: string;
+  body: string;
+  head: string;
+  base: string;
+}
+
 export interface GitHubCreateGistRequest {
   description: string;
   public: boolean;
@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import { UsageLimitError } from './error-handler';
+import { FileUtils } from './file-utils';
+import { Logger } from './logger';
+import { Metrics } from './metrics';
+import { LLMBudget, LLMOperation, OperationLog } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// USD / 100万トークン（入力, 出力）。モデル名の前方一致で引き、最も長く一致したものを使う
+const DEFAULT_PRICES: Record<string, [number, number]> = {
+  'gpt-4o-mini': [0.15, 0.6],
+  'gpt-4o': [2.5, 10],
+  'gpt-4.1-nano': [0.1, 0.4],
+  'gpt-4.1-mini': [0.4, 1.6],
+  'gpt-4.1': [2, 8],
+  'gpt-3.5-turbo': [0.5, 1.5],
+  'claude-3-haiku': [0.25, 1.25],
+  'claude-3-5-haiku': [0.8, 4],
+  'claude-3-5-sonnet': [3, 15],
+  'claude-3-7-sonnet': [3, 15],
+  'claude-sonnet-4': [3, 15],
+  'claude-opus-4': [15, 75],
+};
+
+export interface UsageRecord {
+  guildId: string;
+  userId?: string;
+  operation: LLMOperation;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+  // 単価が分からず費用に含められなかった呼び出し数
+  unpricedCalls: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byOperation: Partial<Record<LLMOperation, UsageTotals>>;
+}
+
+/**
+ * LLM のトークン使用量と概算費用の記録・集計。
+ * 記録は操作ログ（operation_type: llm_completion）と Prometheus に残し、集計は操作ログを読み直して行う。
+ * 利用上限の確認は呼び出しごとに行うため、当月の合計はメモリ上で足し込んでいく（読み直すのは起動後・月替わり後の初回だけ）。
+ */
+export class UsageTracker {
+  // `${guildId}:${userId}` → 直近1時間の呼び出し時刻（再起動でリセットされる）
+  private static recentRequests = new Map<string, number[]>();
+  // guildId → 当月（UTC の YYYY-MM）の使用量の合計
+  private static monthlyTotals = new Map<string, { month: string; totals: UsageTotals }>();
+
+  /**
+   * 概算費用（USD）。単価が分からないモデルは null。
+   * ローカルの OpenAI 互換サーバーは 0 とみなす。単価は LLM_PRICES（JSON）で上書き・追加できる。
+   */
+  static estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number | null {
+    const price = this.findPrice(model);
+    if (!price) {
+      return provider === 'openai_compatible' ? 0 : null;
+    }
+    return (promptTokens * price[0] + completionTokens * price[1]) / 1_000_000;
+  }
+
+  static async record(record: UsageRecord): Promise<void> {
+    const cost = this.estimateCost(record.provider, record.model, record.promptTokens, record.completionTokens);
+
+    Metrics.recordLLMUsage(record.guildId, record.operation, record.promptTokens, record.completionTokens, cost ?? 0);
+
+    const cached = this.monthlyTotals.get(record.guildId);
+    if (cached?.month === this.monthKey(new Date())) {
+      this.add(cached.totals, record.promptTokens, record.completionTokens, cost);
+    }
+
+    const log: OperationLog = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      guild_id: record.guildId,
+      channel_id: 'unknown',
+      user_id: record.userId || 'unknown',
+      operation_type: 'llm_completion',
+      status: 'success',
+      details: {
+        llm_operation: record.operation,
+        llm_provider: record.provider,
+        model: record.model,
+        prompt_tokens: record.promptTokens,
+        completion_tokens: record.completionTokens,
+        ...(cost !== null ? { estimated_cost_usd: cost } : {}),
+      },
+    };
+
+    try {
+      await FileUtils.logOperation(log);
+    } catch (error) {
+      // 記録の失敗で本処理は止めない
+      Logger.warn('Failed to record LLM usage', { guildId: record.guildId, error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Guild の利用上限を確認し、通れば今回の呼び出しを1回として数える。
+   * 上限に達していれば UsageLimitError を投げる。
+   */
+  static async acquire(guildId: string, userId: string | undefined, budget: LLMBudget | undefined): Promise<void> {
+    if (!budget) return;
+
+    const { monthly_token_limit: tokenLimit, monthly_cost_limit_usd: costLimit, user_hourly_limit: hourlyLimit } = budget;
+    if (tokenLimit !== undefined || costLimit !== undefined) {
+      const usage = await this.getMonthlyTotals(guildId);
+      const tokens = usage.promptTokens + usage.completionTokens;
+      if (tokenLimit !== undefined && tokens >= tokenLimit) {
+        throw new UsageLimitError(
+          `今月の LLM トークン上限（${tokenLimit.toLocaleString('ja-JP')}）に達しました。管理者は /config budget で上限を変更できます。`,
+          { guildId, tokens, tokenLimit }
+        );
+      }
+      if (costLimit !== undefined && usage.costUsd >= costLimit) {
+        throw new UsageLimitError(
+          `今月の LLM 費用の上限（$${costLimit}）に達しました。管理者は /config budget で上限を変更できます。`,
+          { guildId, costUsd: usage.costUsd, costLimit }
+        );
+      }
+    }
+
+    if (userId && hourlyLimit !== undefined) {
+      const key = `${guildId}:${userId}`;
+      const now = Date.now();
+      const recent = (this.recentRequests.get(key) || []).filter(t => now - t < HOUR_MS);
+      if (recent.length >= hourlyLimit) {
+        this.recentRequests.set(key, recent);
+        const waitMinutes = Math.ceil((recent[0]! + HOUR_MS - now) / 60000);
+        throw new UsageLimitError(
+          `LLM の利用回数が1時間あたりの上限（${hourlyLimit}回）に達しました。約${waitMinutes}分後に再度お試しください。`,
+          { guildId, userId, hourlyLimit }
+        );
+      }
+      recent.push(now);
+      this.recentRequests.set(key, recent);
+    }
+  }
+
+  /**
+   * 当月（UTC）1日から今日までの使用量。
+   */
+  static async getMonthToDate(guildId: string, now: Date = new Date()): Promise<UsageSummary> {
+    const year = now.getUTCFullYear();
+    const month = now.getUTCMonth();
+    const logs: OperationLog[] = [];
+    for (let day = 1; day <= now.getUTCDate(); day++) {
+      const date = new Date(Date.UTC(year, month, day)).toISOString().split('T')[0]!;
+      logs.push(...await FileUtils.readOperationLogs(date));
+    }
+    return this.aggregate(logs, guildId);
+  }
+
+  private static async getMonthlyTotals(guildId: string): Promise<UsageTotals> {
+    const now = new Date();
+    const month = this.monthKey(now);
+    const cached = this.monthlyTotals.get(guildId);
+    if (cached?.month === month) return cached.totals;
+
+    const { calls, promptTokens, completionTokens, costUsd, unpricedCalls } = await this.getMonthToDate(guildId, now);
+    const totals: UsageTotals = { calls, promptTokens, completionTokens, costUsd, unpricedCalls };
+    // 読み込み中に別の呼び出しが先に載せていれば、そちらを使う
+    const loaded = this.monthlyTotals.get(guildId);
+    if (loaded?.month === month) return loaded.totals;
+    this.monthlyTotals.set(guildId, { month, totals });
+    return totals;
+  }
+
+  static aggregate(logs: OperationLog[], guildId: string): UsageSummary {
+    const summary: UsageSummary = { ...this.emptyTotals(), byOperation: {} };
+
+    for (const log of logs) {
+      if (log.operation_type !== 'llm_completion' || log.guild_id !== guildId) continue;
+      const { details } = log;
+      const operation = details.llm_operation;
+      const targets: UsageTotals[] = [summary];
+      if (operation) {
+        targets.push(summary.byOperation[operation] ??= this.emptyTotals());
+      }
+
+      for (const totals of targets) {
+        this.add(totals, details.prompt_tokens || 0, details.completion_tokens || 0, details.estimated_cost_usd ?? null);
+      }
+    }
+
+    return summary;
+  }
+
+  private static add(totals: UsageTotals, promptTokens: number, completionTokens: number, cost: number | null): void {
+    totals.calls++;
+    totals.promptTokens += promptTokens;
+    totals.completionTokens += completionTokens;
+    if (cost !== null) {
+      totals.costUsd += cost;
+    } else {
+      totals.unpricedCalls++;
+    }
+  }
+
+  private static monthKey(date: Date): string {
+    return date.toISOString().slice(0, 7);
+  }
+
+  private static emptyTotals(): UsageTotals {
+    return { calls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedCalls: 0 };
+  }
+
+  private static findPrice(model: string): [number, number] | null {
+    const prices = { ...DEFAULT_PRICES, ...this.loadPriceOverrides() };
+    let best: string | null = null;
+    for (const prefix of Object.keys(prices)) {
+      if (model.startsWith(prefix) && (!best || prefix.length > best.length)) {
+        best = prefix;
+      }
+    }
+    return best ? prices[best]! : null;
+  }
+
+  private static loadPriceOverrides(): Record<string, [number, number]> {
+    const raw = process.env.LLM_PRICES;
+    if (!raw) return {};
+    try {
+      const parsed = JSON.parse(raw) as Record<string, unknown>;
+      const overrides: Record<string, [number, number]> = {};
+      for (const [model, value] of Object.entries(parsed)) {
+        if (Array.isArray(value) && value.length === 2 && value.every(v => typeof v === 'number' && v >= 0)) {
+          overrides[model] = [value[0], value[1]];
+        }
+      }
+      return overrides;
+    } catch {
+      Logger.warn('LLM_PRICES is not valid JSON; using default prices');
+      return {};
+    }
+  }
+}